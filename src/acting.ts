@@ -6,6 +6,7 @@ import {
   removeComponent,
   type World,
 } from "bitecs";
+import { addSystem, type Scheduler } from "./scheduler";
 import { type Time } from "./shared";
 
 /**
@@ -21,7 +22,11 @@ export type Acting = {
  * Create the Acting component.
  */
 export function initialize(
-  world: World<{ components: { Acting: Acting }; time: Time }>
+  world: World<{
+    components: { Acting: Acting };
+    scheduler: Scheduler;
+    time: Time;
+  }>
 ) {
   const Acting = {
     start: [],
@@ -46,6 +51,13 @@ export function initialize(
       Acting.completion[actorId] = 0;
     }
   );
+
+  addSystem(world, {
+    name: "updateActingCompletion",
+    phase: "input",
+    run: updateActingCompletion,
+    after: ["advanceTime"],
+  });
 }
 
 /**
@@ -0,0 +1,92 @@
+import { getRelationTargets, type World } from "bitecs";
+import { queryElevators, type Elevator } from "./elevator";
+import { type Floor, type FloorLookup } from "./floor";
+import { type LevelState } from "./level";
+import { type Metrics } from "./metrics";
+import { getLine, type Lines } from "./passenger";
+import { ChildOf, type Time } from "./shared";
+
+/**
+ * Doors drawn inside a car, by elevator state.
+ */
+const doors = {
+  open: "  ",
+  opening: "<>",
+  closing: "><",
+  closed: "||",
+  moving: "::",
+};
+
+/**
+ * Arrows drawn next to the doors, by elevator direction.
+ */
+const arrows = {
+  up: "^",
+  down: "v",
+  idle: "-",
+};
+
+/**
+ * Empty stretch of shaft, as wide as a car.
+ */
+const shaft = "   |   ";
+
+/**
+ * Draw the building as text, top floor first. Each row has the floor label, a
+ * cell per shaft and the floor's lit call buttons and waiting passengers. A
+ * car shows its doors, direction and load, e.g. [<>^ 3] is opening on its way
+ * up with 3 passengers. A moving car is drawn at the floor it's heading to.
+ */
+export function renderAscii(
+  world: World<{
+    components: { Elevator: Elevator; Floor: Floor };
+    floors: FloorLookup;
+    lines: Lines;
+    level: LevelState;
+    metrics: Metrics;
+    time: Time;
+  }>
+) {
+  const { Elevator, Floor } = world.components;
+
+  const elevatorIds = queryElevators(world);
+  const width = Math.max(
+    ...world.floors.map((floorId) => Floor.label[floorId].length)
+  );
+
+  const rows = [
+    `${world.level.current.name} at ${(world.time.elapsed / 1000).toFixed(1)}s, ${world.metrics.delivered} delivered`,
+  ];
+
+  for (const floorId of [...world.floors].reverse()) {
+    const cells = elevatorIds.map((elevatorId) => {
+      const [parentId] = getRelationTargets(world, elevatorId, ChildOf);
+
+      if (parentId !== floorId) {
+        return shaft;
+      }
+
+      const state = doors[Elevator.state[elevatorId]];
+      const arrow = arrows[Elevator.direction[elevatorId]];
+      const load = String(getLine(world, elevatorId).length).padStart(2);
+
+      return `[${state}${arrow}${load}]`;
+    });
+
+    const buttons = `${Floor.up[floorId] ? "^" : " "}${Floor.down[floorId] ? "v" : " "}`;
+    const waiting = getLine(world, floorId).length;
+
+    rows.push(
+      [
+        Floor.label[floorId].padStart(width),
+        ...cells,
+        buttons,
+        waiting > 0 ? String(waiting) : "",
+      ]
+        .join(" ")
+        .trimEnd()
+    );
+  }
+
+  return rows.join("\n");
+}
@@ -1,5 +1,8 @@
 import { query, setComponent, type World } from "bitecs";
+import { getShaftPosition, type Elevator } from "./elevator";
+import { floorHeight, type FloorLookup } from "./floor";
 import { type Graphic, type RenderStats } from "./graphic";
+import { addSystem, type Scheduler } from "./scheduler";
 
 /**
  * Building component.
@@ -10,26 +13,40 @@ export type Building = {};
  * Initialize module.
  */
 export function initialize(
-  world: World<{ components: { Building: Building } }>
+  world: World<{ components: { Building: Building }; scheduler: Scheduler }>
 ) {
   const Building = {} as Building;
   world.components.Building = Building;
+
+  addSystem(world, {
+    name: "updateBuildingGraphics",
+    phase: "render-prep",
+    run: updateBuildingGraphics,
+  });
 }
 
 /**
- * Update graphics for each building.
+ * Update graphics for each building. Buildings fill the viewport, or grow
+ * taller to fit their floors and wider to fit their shafts and the wall past
+ * the last one.
  */
 export function updateBuildingGraphics(
   world: World<{
-    components: { Building: Building; Graphic: Graphic };
+    components: { Building: Building; Elevator: Elevator; Graphic: Graphic };
+    floors: FloorLookup;
     rendering: RenderStats;
   }>
 ) {
-  const { Building, Graphic } = world.components;
+  const { Building, Elevator, Graphic } = world.components;
+  const [width, height] = world.rendering.size;
+  const shafts = query(world, [Elevator]).length;
 
   for (const buildingId of query(world, [Building])) {
     setComponent(world, buildingId, Graphic, {
-      size: world.rendering.size,
+      size: [
+        Math.max(width, getShaftPosition(shafts) + floorHeight),
+        Math.max(height, world.floors.length * floorHeight),
+      ],
       color: [255, 255, 255, 1],
     });
   }
@@ -0,0 +1,223 @@
+import { getRelationTargets, query, type EntityId, type World } from "bitecs";
+import { type Building } from "./building";
+import { type Elevator } from "./elevator";
+import { type Graphic, type RenderStats } from "./graphic";
+import { interpolate } from "./math";
+import { addSystem, type Scheduler } from "./scheduler";
+import { ChildOf } from "./shared";
+
+/**
+ * Camera resource. Shows the world from offset, scaled by zoom.
+ */
+export type Camera = {
+  // World position at the top left corner of the viewport.
+  offset: [number, number];
+  zoom: number;
+  // Fit the whole building, keep centered on an elevator, or stay put.
+  mode: "fit" | "follow" | "free";
+  // Index of the elevator to follow.
+  target: number;
+};
+
+/**
+ * How far the camera may zoom in or out.
+ */
+const zoomRange = [0.01, 8] as const;
+
+/**
+ * Initialize module.
+ */
+export function initialize(
+  world: World<{ camera: Camera; scheduler: Scheduler }>
+) {
+  world.camera = {
+    offset: [0, 0],
+    zoom: 1,
+    mode: "fit",
+    target: 0,
+  };
+
+  addSystem(world, {
+    name: "updateCamera",
+    phase: "render-prep",
+    run: updateCamera,
+    after: ["updatePassengerGraphics"],
+  });
+}
+
+/**
+ * Fit the whole building in the viewport from now on.
+ */
+export function fit(world: World<{ camera: Camera }>) {
+  world.camera.mode = "fit";
+}
+
+/**
+ * Keep an elevator centered in the viewport from now on.
+ */
+export function follow(world: World<{ camera: Camera }>, index: number) {
+  world.camera.mode = "follow";
+  world.camera.target = index;
+}
+
+/**
+ * Move the camera by a distance on screen, e.g. dragged by the mouse.
+ */
+export function pan(
+  world: World<{ camera: Camera }>,
+  [x, y]: [number, number]
+) {
+  const { camera } = world;
+
+  camera.mode = "free";
+  camera.offset = [
+    camera.offset[0] - x / camera.zoom,
+    camera.offset[1] - y / camera.zoom,
+  ];
+}
+
+/**
+ * Zoom by a factor, keeping the given point on screen still, e.g. where the
+ * mouse is.
+ */
+export function zoomAt(
+  world: World<{ camera: Camera }>,
+  factor: number,
+  [x, y]: [number, number]
+) {
+  const { camera } = world;
+
+  const zoom = Math.min(
+    Math.max(camera.zoom * factor, zoomRange[0]),
+    zoomRange[1]
+  );
+
+  camera.mode = "free";
+  camera.offset = [
+    camera.offset[0] + x / camera.zoom - x / zoom,
+    camera.offset[1] + y / camera.zoom - y / zoom,
+  ];
+  camera.zoom = zoom;
+}
+
+/**
+ * Find where a graphic is in the world, adding up its parents' positions,
+ * alpha of the way from where they were on the last step, like rendering.
+ */
+function getWorldPosition(
+  world: World<{ components: { Graphic: Graphic } }>,
+  entityId: EntityId | undefined,
+  alpha = 1
+) {
+  const { Graphic } = world.components;
+
+  const position: [number, number] = [0, 0];
+
+  while (entityId !== undefined) {
+    const current = Graphic.position[entityId];
+    const previous = Graphic.previous[entityId] ?? current;
+
+    position[0] += interpolate(previous[0], current[0], alpha);
+    position[1] += interpolate(previous[1], current[1], alpha);
+
+    [entityId] = getRelationTargets(world, entityId, ChildOf);
+  }
+
+  return position;
+}
+
+/**
+ * Find the offset that centers the followed elevator, as drawn alpha of the
+ * way between steps, if there's one.
+ */
+function getFollowOffset(
+  world: World<{
+    components: { Elevator: Elevator; Graphic: Graphic };
+    camera: Camera;
+    rendering: RenderStats;
+  }>,
+  alpha: number
+): [number, number] | undefined {
+  const { Elevator, Graphic } = world.components;
+  const { camera } = world;
+  const [width, height] = world.rendering.size;
+
+  const elevatorId = query(world, [Elevator, Graphic]).find(
+    (elevatorId) => Elevator.index[elevatorId] === camera.target
+  );
+
+  if (elevatorId === undefined) {
+    return undefined;
+  }
+
+  const [x, y] = getWorldPosition(world, elevatorId, alpha);
+  const size = Graphic.size[elevatorId];
+
+  return [
+    x + size[0] / 2 - width / camera.zoom / 2,
+    y + size[1] / 2 - height / camera.zoom / 2,
+  ];
+}
+
+/**
+ * Find the offset to draw a frame from. Rendering interpolates between steps,
+ * so a followed elevator is centered where it's drawn rather than where it
+ * was on the last step, or it would slide off and snap back.
+ */
+export function getCameraOffset(
+  world: World<{
+    components: { Elevator: Elevator; Graphic: Graphic };
+    camera: Camera;
+    rendering: RenderStats;
+  }>
+) {
+  const { camera } = world;
+
+  if (camera.mode !== "follow") {
+    return camera.offset;
+  }
+
+  return getFollowOffset(world, world.rendering.alpha) ?? camera.offset;
+}
+
+/**
+ * Point the camera at the building or the elevator it's following.
+ */
+export function updateCamera(
+  world: World<{
+    components: { Building: Building; Elevator: Elevator; Graphic: Graphic };
+    camera: Camera;
+    rendering: RenderStats;
+  }>
+) {
+  const { Building, Graphic } = world.components;
+  const { camera } = world;
+  const [width, height] = world.rendering.size;
+
+  switch (camera.mode) {
+    case "fit": {
+      const [buildingId] = query(world, [Building, Graphic]);
+
+      if (buildingId === undefined) {
+        break;
+      }
+
+      const [x, y] = getWorldPosition(world, buildingId);
+      const size = Graphic.size[buildingId];
+
+      camera.zoom = Math.min(width / size[0], height / size[1]);
+
+      // Center the building in whatever room is left.
+      camera.offset = [
+        x + (size[0] - width / camera.zoom) / 2,
+        y + (size[1] - height / camera.zoom) / 2,
+      ];
+      break;
+    }
+    case "follow": {
+      // Keep the offset up to date for when the camera stops following.
+      camera.offset = getFollowOffset(world, 1) ?? camera.offset;
+      break;
+    }
+  }
+}
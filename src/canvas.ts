@@ -0,0 +1,84 @@
+import { type Renderer } from "./graphic";
+
+const images = new Map<string, HTMLImageElement>();
+
+/**
+ * Get an image by source, loading it the first time.
+ */
+export function getImage(src: string): HTMLImageElement {
+  if (!images.has(src)) {
+    const img = new Image();
+    img.src = src;
+    images.set(src, img);
+  }
+  return images.get(src)!;
+}
+
+/**
+ * Create a renderer that draws to a canvas. Frame sizes are in CSS pixels,
+ * the canvas holds as many device pixels as needed to stay sharp.
+ */
+export function createCanvasRenderer(ctx: CanvasRenderingContext2D): Renderer {
+  return {
+    begin([width, height]) {
+      const ratio = window.devicePixelRatio || 1;
+      const pixels = [Math.round(width * ratio), Math.round(height * ratio)];
+
+      // Resizing clears the canvas and its state, so only do it when needed.
+      if (ctx.canvas.width !== pixels[0] || ctx.canvas.height !== pixels[1]) {
+        ctx.canvas.width = pixels[0];
+        ctx.canvas.height = pixels[1];
+      }
+
+      ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+
+      // Keep pixel art crisp when scaled.
+      ctx.imageSmoothingEnabled = false;
+
+      ctx.clearRect(0, 0, width, height);
+    },
+
+    enter(position, rotation, scale) {
+      ctx.save();
+
+      ctx.translate(...position);
+      ctx.rotate(rotation);
+      ctx.scale(...scale);
+    },
+
+    fill(size, color) {
+      ctx.fillStyle = `rgba(${color.join(", ")})`;
+      ctx.fillRect(0, 0, ...size);
+    },
+
+    text(text, font, color) {
+      ctx.font = font;
+      ctx.fillStyle = `rgba(${color.join(", ")})`;
+      ctx.fillText(text, 0, 0);
+    },
+
+    image(src, size, pattern) {
+      const img = getImage(src);
+
+      if (!pattern) {
+        ctx.drawImage(img, 0, 0, ...size);
+        return;
+      }
+
+      const fill = ctx.createPattern(img, pattern);
+
+      if (!fill) {
+        throw new Error(`Failed to create pattern with image ${src}`);
+      }
+
+      ctx.fillStyle = fill;
+      ctx.fillRect(0, 0, ...size);
+    },
+
+    leave() {
+      ctx.restore();
+    },
+
+    end() {},
+  };
+}
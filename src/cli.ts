@@ -0,0 +1,307 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { setTimeout as sleep } from "node:timers/promises";
+import { parseArgs } from "node:util";
+import { renderAscii } from "./ascii";
+import { compileController, setController } from "./controller";
+import { subscribe } from "./events";
+import { createNullRenderer, render } from "./graphic";
+import { getLevel, levels, type Level } from "./level";
+import {
+  createRecording,
+  findDivergence,
+  parseRecording,
+  type Recording,
+} from "./recording";
+import { parseScenario } from "./scenario";
+import {
+  createSnapshot,
+  parseSnapshot,
+  restoreSnapshot,
+  type Snapshot,
+} from "./snapshot";
+import { setSeed } from "./shared";
+import {
+  createSimulation,
+  replay,
+  seed,
+  step,
+  updateGraphics,
+  type Simulation,
+} from "./simulation";
+import { createSvgRenderer } from "./svg";
+
+const usage = `Usage: npm run simulate -- [options]
+
+Options:
+  -c, --controller <file>  Controller code to run, defaults to the built-in one
+  -l, --level <id>         Level to play (default: ${levels[0].id})
+  -f, --scenario <file>    Scenario file to play instead of a level
+  -d, --duration <s>       Most simulated time in seconds (default: 60, or
+                           the level's time limit)
+  -s, --step <ms>          Simulation step in milliseconds (default: 16.67)
+  -r, --seed <n>           Random seed, defaults to the scenario's or a
+                           random one
+  -o, --record <file>      Save a recording of the run
+  -p, --replay <file>      Play a recording again, ignoring other options
+  -i, --restore <file>     Resume from a snapshot instead of a level
+  -x, --snapshot <file>    Save a snapshot of the final state
+  -v, --verbose            Print simulation events as they happen
+  -t, --profile            Print tick time as the run goes, and the time
+                           taken by each system
+  -g, --graphics           Update and render graphics every step, drawing
+                           nothing, to exercise graphics systems
+  -e, --export <file>      Save an SVG picture of the final state
+  -a, --ascii <s>          Print the building as text every so many seconds
+  -w, --watch              Show the building as text, updating in place, in
+                           real time
+  -h, --help               Show this message
+
+Levels: ${levels.map((level) => level.id).join(", ")}`;
+
+const { values } = parseArgs({
+  options: {
+    controller: { type: "string", short: "c" },
+    level: { type: "string", short: "l", default: levels[0].id },
+    scenario: { type: "string", short: "f" },
+    duration: { type: "string", short: "d" },
+    step: { type: "string", short: "s" },
+    seed: { type: "string", short: "r" },
+    record: { type: "string", short: "o" },
+    replay: { type: "string", short: "p" },
+    restore: { type: "string", short: "i" },
+    snapshot: { type: "string", short: "x" },
+    verbose: { type: "boolean", short: "v", default: false },
+    profile: { type: "boolean", short: "t", default: false },
+    graphics: { type: "boolean", short: "g", default: false },
+    export: { type: "string", short: "e" },
+    ascii: { type: "string", short: "a" },
+    watch: { type: "boolean", short: "w", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (values.help) {
+  console.log(usage);
+  process.exit(0);
+}
+
+let level: Level;
+let recording: Recording | undefined;
+let snapshot: Snapshot | undefined;
+
+try {
+  if (values.replay) {
+    recording = parseRecording(readFileSync(values.replay, "utf-8"));
+    level = recording.level;
+  } else if (values.restore) {
+    snapshot = parseSnapshot(readFileSync(values.restore, "utf-8"));
+    level = snapshot.level.current;
+  } else if (values.scenario) {
+    level = parseScenario(readFileSync(values.scenario, "utf-8"));
+  } else {
+    level = getLevel(values.level);
+  }
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
+
+const duration =
+  values.duration === undefined
+    ? (level.objective.duration ?? 60000)
+    : Number(values.duration) * 1000;
+const delta = Number(values.step ?? 1000 / 60);
+const ascii = values.ascii === undefined ? 0 : Number(values.ascii) * 1000;
+
+if (!(duration > 0) || !(delta > 0) || !(ascii >= 0)) {
+  console.error(usage);
+  process.exit(1);
+}
+
+let world: Simulation;
+
+if (recording) {
+  world = replay(recording);
+} else if (snapshot) {
+  world = restoreSnapshot(snapshot);
+} else {
+  world = createSimulation();
+
+  world.time.step = delta;
+
+  seed(world, level);
+
+  // Override the scenario's own seed, if any.
+  if (values.seed !== undefined) {
+    setSeed(world, Number(values.seed));
+  }
+}
+
+if (values.controller && !recording) {
+  setController(
+    world,
+    compileController(readFileSync(values.controller, "utf-8"))
+  );
+}
+
+if (values.verbose) {
+  for (const type of [
+    "PassengerSpawned",
+    "PassengerBoarded",
+    "PassengerDelivered",
+    "ElevatorArrived",
+    "DoorsOpened",
+    "DoorsClosed",
+    "ElevatorIdle",
+  ] as const) {
+    subscribe(world, type, ({ type, ...event }) => {
+      const time = (world.time.elapsed / 1000).toFixed(2);
+      console.log(`[${time}s] ${type} ${JSON.stringify(event)}`);
+    });
+  }
+}
+
+const renderer = createNullRenderer();
+const start = performance.now();
+const origin = world.time.elapsed;
+
+// Simulated time of the last frame printed and shown.
+let printed = origin;
+let shown = -Infinity;
+
+/**
+ * Advance one step, drawing it too if asked.
+ */
+async function advance() {
+  step(world);
+
+  if (values.graphics) {
+    updateGraphics(world);
+    render(world, renderer);
+  }
+
+  if (ascii > 0 && world.time.elapsed - printed >= ascii) {
+    console.log(`${renderAscii(world)}\n`);
+    printed = world.time.elapsed;
+  }
+
+  // Redraw some 10 times a second, waiting for real time to catch up.
+  if (values.watch && world.time.elapsed - shown >= 100) {
+    process.stdout.write(`\x1b[H\x1b[J${renderAscii(world)}\n`);
+    shown = world.time.elapsed;
+
+    const ahead = world.time.elapsed - origin - (performance.now() - start);
+
+    if (ahead > 0) {
+      await sleep(ahead);
+    }
+  }
+}
+
+if (recording) {
+  while (
+    world.simulation.count < recording.ticks &&
+    world.level.outcome === "pending"
+  ) {
+    await advance();
+  }
+} else {
+  // Sample tick time as the crowd grows, to tell how well the systems scale.
+  let sample = { elapsed: 0, count: 0, wall: start };
+
+  while (world.time.elapsed < duration && world.level.outcome === "pending") {
+    await advance();
+
+    if (values.profile && world.time.elapsed - sample.elapsed >= 10000) {
+      const now = performance.now();
+      const time = (world.time.elapsed / 1000).toFixed(0);
+      const crowd = world.metrics.spawned - world.metrics.delivered;
+      const tick =
+        (now - sample.wall) / (world.simulation.count - sample.count);
+
+      console.log(
+        `[${time}s] ${crowd} passengers, ${tick.toFixed(3)}ms per tick`
+      );
+
+      sample = {
+        elapsed: world.time.elapsed,
+        count: world.simulation.count,
+        wall: now,
+      };
+    }
+  }
+}
+
+const wall = performance.now() - start;
+
+console.log(`Level: ${level.name}`);
+console.log(`Seed: ${world.random.seed}`);
+console.log(
+  `Simulated ${(world.time.elapsed / 1000).toFixed(1)}s in ${Math.round(wall)}ms`
+);
+console.log(`Ticks: ${world.simulation.count}`);
+console.log(`Average tick: ${(wall / world.simulation.count).toFixed(3)}ms`);
+
+const { metrics } = world;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+console.log(`Passengers spawned: ${metrics.spawned}`);
+console.log(
+  `Passengers delivered: ${metrics.delivered} (${metrics.throughput.toFixed(1)}/min)`
+);
+console.log(
+  `Wait: ${seconds(metrics.averageWait)} average, ${seconds(metrics.maxWait)} max`
+);
+console.log(
+  `Ride: ${seconds(metrics.averageRide)} average, ${seconds(metrics.maxRide)} max`
+);
+console.log(`Moves: ${metrics.moves}`);
+
+if (world.level.outcome === "success") {
+  console.log(`Success: ${world.level.reason}`);
+} else if (world.level.outcome === "failure") {
+  console.log(`Failure: ${world.level.reason}`);
+  process.exitCode = 1;
+}
+
+if (values.profile) {
+  const systems = Object.entries(world.simulation.systems).sort(
+    ([, a], [, b]) => b.total - a.total
+  );
+
+  for (const [name, { total }] of systems) {
+    const average = (total / world.simulation.count).toFixed(4);
+    console.log(`  ${name}: ${Math.round(total)}ms, ${average}ms per tick`);
+  }
+}
+
+if (values.export) {
+  const renderer = createSvgRenderer();
+
+  updateGraphics(world);
+  render(world, renderer);
+
+  writeFileSync(values.export, renderer.svg);
+  console.log(`Picture saved to ${values.export}`);
+}
+
+if (values.snapshot) {
+  writeFileSync(values.snapshot, JSON.stringify(createSnapshot(world)));
+  console.log(`Snapshot saved to ${values.snapshot}`);
+}
+
+if (values.record) {
+  writeFileSync(values.record, JSON.stringify(createRecording(world)));
+  console.log(`Recording saved to ${values.record}`);
+}
+
+if (recording) {
+  const tick = findDivergence(world, recording);
+
+  if (tick === undefined) {
+    console.log("Replay matches the recording");
+  } else {
+    console.log(`Replay diverged from the recording at tick ${tick}`);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,540 @@
+import { getRelationTargets, query, setComponent, type World } from "bitecs";
+import { type Elevator } from "./elevator";
+import { type Floor, type FloorLookup } from "./floor";
+import { getLine, type Lines } from "./passenger";
+import { record, type Recorder } from "./recording";
+import { addSystem, type Scheduler } from "./scheduler";
+import { ChildOf, type SimulationStats } from "./shared";
+
+/**
+ * Elevator information as seen by controllers.
+ */
+export type ElevatorInfo = {
+  index: number;
+  floor: number;
+  state: Elevator["state"][number];
+  direction: Elevator["direction"][number];
+  queue: number[];
+  pressed: number[];
+  capacity: number;
+  load: number;
+};
+
+/**
+ * Floor information as seen by controllers.
+ */
+export type FloorInfo = {
+  index: number;
+  waiting: number;
+  up: boolean;
+  down: boolean;
+};
+
+/**
+ * Building information as seen by controllers.
+ */
+export type BuildingInfo = {
+  elevators: ElevatorInfo[];
+  floors: FloorInfo[];
+};
+
+/**
+ * Events delivered to controllers.
+ */
+export type ControllerEvent =
+  | { type: "call"; floor: number; direction: "up" | "down" }
+  | { type: "press"; elevator: number; floor: number }
+  | {
+      type: "passing";
+      elevator: number;
+      floor: number;
+      direction: "up" | "down";
+    }
+  | { type: "stopped"; elevator: number; floor: number }
+  | { type: "idle"; elevator: number };
+
+/**
+ * Commands issued by controllers.
+ */
+export type ControllerCommand =
+  | { type: "go"; elevator: number; floor: number; immediately: boolean }
+  | { type: "stop"; elevator: number };
+
+/**
+ * Handle given to controllers to inspect and command an elevator.
+ */
+export type ElevatorHandle = {
+  readonly index: number;
+  /** Floor index the elevator is at, or heading to when moving. */
+  currentFloor(): number;
+  /** Direction of the next destination. */
+  destinationDirection(): "up" | "down" | "idle";
+  /** Copy of the floors the elevator will stop at, in order. */
+  destinationQueue(): number[];
+  /** Floor buttons lit inside the elevator, cleared as it arrives. */
+  getPressedFloors(): number[];
+  /** Most passengers the elevator fits. */
+  maxPassengerCount(): number;
+  /** How full the elevator is, from 0 (empty) to 1 (full). */
+  loadFactor(): number;
+  /** Queue a stop at the given floor, or make it the next stop. */
+  goToFloor(floor: number, immediately?: boolean): void;
+  /** Clear the queue so the elevator stops at the next floor. */
+  stop(): void;
+};
+
+/**
+ * Handle given to controllers to inspect a floor.
+ */
+export type FloorHandle = {
+  readonly index: number;
+  /** Number of passengers waiting for an elevator. */
+  waitingCount(): number;
+  /** Call buttons lit on the floor. */
+  buttonStates(): { up: boolean; down: boolean };
+};
+
+/**
+ * Elevator controller, i.e. the player's code.
+ *
+ * `init` is called once with handles for every elevator and floor, which
+ * remain valid for the rest of the simulation. Callbacks are then invoked
+ * once per event, in the order they happened. An elevator only ever moves
+ * as a result of commands given through its handle.
+ */
+export type Controller = {
+  /** Called once before any other callback. */
+  init(elevators: ElevatorHandle[], floors: FloorHandle[]): void;
+  /** A passenger called an elevator to go up or down from a floor. */
+  onCallButtonPressed?(floor: FloorHandle, direction: "up" | "down"): void;
+  /** A passenger inside an elevator pressed a floor button. */
+  onFloorButtonPressed?(elevator: ElevatorHandle, floor: number): void;
+  /** An elevator ran out of destinations and closed its doors. */
+  onElevatorIdle?(elevator: ElevatorHandle): void;
+  /** An elevator is about to pass a floor without stopping. */
+  onPassingFloor?(
+    elevator: ElevatorHandle,
+    floor: number,
+    direction: "up" | "down"
+  ): void;
+  /** An elevator stopped at a floor and is opening its doors. */
+  onStoppedAtFloor?(elevator: ElevatorHandle, floor: number): void;
+};
+
+/**
+ * Run a controller against building information and return its commands.
+ */
+export type ControllerRuntime = (
+  info: BuildingInfo,
+  events: ControllerEvent[]
+) => ControllerCommand[];
+
+/**
+ * Controller state on the world.
+ */
+export type Control = {
+  runtime: ControllerRuntime;
+  events: ControllerEvent[];
+};
+
+/**
+ * Create a controller that sends the least busy elevator wherever it's called.
+ */
+export function createDefaultController(): Controller {
+  let elevators: ElevatorHandle[] = [];
+  let floors: FloorHandle[] = [];
+
+  // Stops queued, then distance to the floor, as a tiebreaker.
+  const cost = (elevator: ElevatorHandle, floor: number) =>
+    elevator.destinationQueue().length * 100 +
+    Math.abs(elevator.currentFloor() - floor);
+
+  return {
+    init(...handles) {
+      [elevators, floors] = handles;
+    },
+    onCallButtonPressed(floor) {
+      if (elevators.length === 0) {
+        throw new Error("Expected at least 1 elevator");
+      }
+
+      if (elevators.some((e) => e.destinationQueue().includes(floor.index))) {
+        return;
+      }
+
+      const [elevator] = [...elevators].sort(
+        (a, b) => cost(a, floor.index) - cost(b, floor.index)
+      );
+
+      elevator.goToFloor(floor.index);
+    },
+    onFloorButtonPressed(elevator, floor) {
+      if (!elevator.destinationQueue().includes(floor)) {
+        elevator.goToFloor(floor);
+      }
+    },
+    // Pick up passengers going our way on the way.
+    onPassingFloor(elevator, floor, direction) {
+      if (floors.find((f) => f.index === floor)?.buttonStates()[direction]) {
+        elevator.goToFloor(floor, true);
+      }
+    },
+    // Pick up whoever is still waiting, e.g. for a car going their way.
+    onElevatorIdle(elevator) {
+      const [floor] = floors
+        .filter((floor) => {
+          const { up, down } = floor.buttonStates();
+          return up || down;
+        })
+        .sort(
+          (a, b) =>
+            Math.abs(a.index - elevator.currentFloor()) -
+            Math.abs(b.index - elevator.currentFloor())
+        );
+
+      if (floor) {
+        elevator.goToFloor(floor.index);
+      }
+    },
+  };
+}
+
+/**
+ * Compile player code into a controller.
+ *
+ * The code must be a single expression evaluating to a controller object,
+ * e.g. `({ init(elevators, floors) {} })`.
+ */
+export function compileController(code: string): Controller {
+  const controller = new Function(
+    `"use strict"; return (${code.trim().replace(/;$/, "")}\n);`
+  )();
+
+  if (typeof controller?.init !== "function") {
+    throw new Error("Expected controller to have an init function");
+  }
+
+  return controller;
+}
+
+/**
+ * Create a runtime for a controller.
+ */
+export function createRuntime(controller: Controller): ControllerRuntime {
+  let info: BuildingInfo = { elevators: [], floors: [] };
+  let commands: ControllerCommand[] = [];
+  let initialized = false;
+
+  const elevators: ElevatorHandle[] = [];
+  const floors: FloorHandle[] = [];
+
+  const getElevator = (index: number) => {
+    const elevator = info.elevators.find((e) => e.index === index);
+
+    if (!elevator) {
+      throw new Error(`Expected elevator ${index} to exist`);
+    }
+
+    return elevator;
+  };
+
+  const getFloor = (index: number) => {
+    const floor = info.floors.find((f) => f.index === index);
+
+    if (!floor) {
+      throw new Error(`Expected floor ${index} to exist`);
+    }
+
+    return floor;
+  };
+
+  const createElevatorHandle = (index: number): ElevatorHandle => ({
+    index,
+    currentFloor: () => getElevator(index).floor,
+    destinationDirection() {
+      const { queue, floor } = getElevator(index);
+
+      if (queue.length === 0) {
+        return "idle";
+      }
+
+      return queue[0] > floor ? "up" : "down";
+    },
+    destinationQueue: () => [...getElevator(index).queue],
+    getPressedFloors: () => [...getElevator(index).pressed],
+    maxPassengerCount: () => getElevator(index).capacity,
+    loadFactor() {
+      const { load, capacity } = getElevator(index);
+      return load / capacity;
+    },
+    goToFloor(floor, immediately = false) {
+      if (typeof floor !== "number") {
+        throw new Error(`Expected floor to be a number, got ${typeof floor}`);
+      }
+
+      getFloor(floor);
+
+      const elevator = getElevator(index);
+
+      if (immediately) {
+        elevator.queue.unshift(floor);
+      } else {
+        elevator.queue.push(floor);
+      }
+
+      commands.push({ type: "go", elevator: index, floor, immediately });
+    },
+    stop() {
+      getElevator(index).queue = [];
+      commands.push({ type: "stop", elevator: index });
+    },
+  });
+
+  const createFloorHandle = (index: number): FloorHandle => ({
+    index,
+    waitingCount: () => getFloor(index).waiting,
+    buttonStates() {
+      const { up, down } = getFloor(index);
+      return { up, down };
+    },
+  });
+
+  return (next, events) => {
+    info = next;
+    commands = [];
+
+    for (const { index } of info.elevators) {
+      if (!elevators.some((e) => e.index === index)) {
+        elevators.push(createElevatorHandle(index));
+      }
+    }
+
+    for (const { index } of info.floors) {
+      if (!floors.some((f) => f.index === index)) {
+        floors.push(createFloorHandle(index));
+      }
+    }
+
+    if (!initialized) {
+      initialized = true;
+      controller.init(elevators, floors);
+    }
+
+    const elevator = (index: number) =>
+      elevators.find((e) => e.index === index)!;
+    const floor = (index: number) => floors.find((f) => f.index === index)!;
+
+    for (const event of events) {
+      switch (event.type) {
+        case "call":
+          controller.onCallButtonPressed?.(floor(event.floor), event.direction);
+          break;
+        case "press":
+          controller.onFloorButtonPressed?.(
+            elevator(event.elevator),
+            event.floor
+          );
+          break;
+        case "passing":
+          controller.onPassingFloor?.(
+            elevator(event.elevator),
+            event.floor,
+            event.direction
+          );
+          break;
+        case "stopped":
+          controller.onStoppedAtFloor?.(elevator(event.elevator), event.floor);
+          break;
+        case "idle":
+          controller.onElevatorIdle?.(elevator(event.elevator));
+          break;
+      }
+    }
+
+    return commands;
+  };
+}
+
+/**
+ * Initialize module.
+ */
+export function initialize(
+  world: World<{ controller: Control; scheduler: Scheduler }>
+) {
+  world.controller = {
+    runtime: createRuntime(createDefaultController()),
+    events: [],
+  };
+
+  addSystem(world, {
+    name: "updateController",
+    phase: "logic",
+    run: updateController,
+    after: ["updatePassengerState"],
+  });
+}
+
+/**
+ * Replace the controller.
+ */
+export function setController(
+  world: World<{ controller: Control }>,
+  controller: Controller
+) {
+  world.controller.runtime = createRuntime(controller);
+}
+
+/**
+ * Queue an event for the controller.
+ */
+export function notify(
+  world: World<{ controller: Control }>,
+  event: ControllerEvent
+) {
+  world.controller.events.push(event);
+}
+
+/**
+ * Gather building information for the controller.
+ */
+export function getBuildingInfo(
+  world: World<{
+    components: { Elevator: Elevator; Floor: Floor };
+    floors: FloorLookup;
+    lines: Lines;
+  }>
+): BuildingInfo {
+  const { Elevator, Floor } = world.components;
+
+  const elevators: ElevatorInfo[] = [];
+  const floors: FloorInfo[] = [];
+
+  for (const elevatorId of query(world, [Elevator])) {
+    const [floorId] = getRelationTargets(world, elevatorId, ChildOf);
+
+    elevators.push({
+      index: Elevator.index[elevatorId],
+      floor: Floor.index[floorId],
+      state: Elevator.state[elevatorId],
+      direction: Elevator.direction[elevatorId],
+      queue: [...Elevator.queue[elevatorId]],
+      pressed: [...Elevator.buttons[elevatorId]],
+      capacity: Elevator.capacity[elevatorId],
+      load: getLine(world, elevatorId).length,
+    });
+  }
+
+  // Only waiting passengers hold a place in line on a floor.
+  for (const [index, floorId] of world.floors.entries()) {
+    floors.push({
+      index,
+      waiting: getLine(world, floorId).length,
+      up: Floor.up[floorId],
+      down: Floor.down[floorId],
+    });
+  }
+
+  return {
+    elevators: elevators.sort((a, b) => a.index - b.index),
+    floors,
+  };
+}
+
+/**
+ * Check a command for a building with so many elevators and floors, e.g. one
+ * sent by player code that skipped the handles.
+ */
+export function isCommand(
+  command: unknown,
+  elevators: number,
+  floors: number
+): command is ControllerCommand {
+  if (typeof command !== "object" || command === null) {
+    return false;
+  }
+
+  const { type, elevator, floor, immediately } = command as Record<
+    string,
+    unknown
+  >;
+
+  const isIndex = (value: unknown, count: number) =>
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) < count;
+
+  if (!isIndex(elevator, elevators)) {
+    return false;
+  }
+
+  switch (type) {
+    case "go":
+      return isIndex(floor, floors) && typeof immediately === "boolean";
+    case "stop":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply controller commands to elevators.
+ */
+export function applyCommands(
+  world: World<{
+    components: { Elevator: Elevator };
+    recorder: Recorder;
+    simulation: SimulationStats;
+  }>,
+  commands: ControllerCommand[]
+) {
+  const { Elevator } = world.components;
+
+  for (const command of commands) {
+    const elevatorId = query(world, [Elevator]).find(
+      (elevatorId) => Elevator.index[elevatorId] === command.elevator
+    );
+
+    if (elevatorId === undefined) {
+      throw new Error(`Expected elevator ${command.elevator} to exist`);
+    }
+
+    const queue = Elevator.queue[elevatorId];
+
+    record(world, { type: "command", command });
+
+    switch (command.type) {
+      case "go":
+        setComponent(world, elevatorId, Elevator, {
+          queue: command.immediately
+            ? [command.floor, ...queue]
+            : [...queue, command.floor],
+        });
+        break;
+      case "stop":
+        setComponent(world, elevatorId, Elevator, { queue: [] });
+        break;
+    }
+  }
+}
+
+/**
+ * Deliver pending events to the controller and apply its commands.
+ */
+export function updateController(
+  world: World<{
+    components: { Elevator: Elevator; Floor: Floor };
+    controller: Control;
+    floors: FloorLookup;
+    lines: Lines;
+    recorder: Recorder;
+    simulation: SimulationStats;
+  }>
+) {
+  const events = world.controller.events;
+  world.controller.events = [];
+
+  const commands = world.controller.runtime(getBuildingInfo(world), events);
+
+  applyCommands(world, commands);
+}
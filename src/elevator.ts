@@ -1,7 +1,9 @@
 import {
   addComponent,
+  addEntity,
   createRelation,
   getRelationTargets,
+  hasComponent,
   Not,
   observe,
   onAdd,
@@ -11,12 +13,19 @@ import {
   removeComponent,
   setComponent,
   type EntityId,
+  type QueryTerm,
   type World,
 } from "bitecs";
 import { type Acting } from "./acting";
-import type { Floor } from "./floor";
+import { notify, type Control } from "./controller";
+import { emit, type EventBus } from "./events";
+import { getFloorId, type Floor, type FloorLookup } from "./floor";
 import { type Graphic } from "./graphic";
-import { ChildOf, type Data, type Time } from "./shared";
+import { curves, interpolate } from "./math";
+import { recordMove, type Metrics } from "./metrics";
+import { record, type Recorder } from "./recording";
+import { addSystem, type Scheduler } from "./scheduler";
+import { ChildOf, type Data, type SimulationStats, type Time } from "./shared";
 
 /**
  * Elevator component.
@@ -26,6 +35,16 @@ export type Elevator = {
   state: ("open" | "opening" | "closing" | "closed" | "moving")[];
   queue: number[][];
   direction: ("up" | "down" | "idle")[];
+  capacity: number[];
+  // Milliseconds to travel one floor.
+  speed: number[];
+  // Milliseconds to open or close the doors.
+  doors: number[];
+  buttons: number[][];
+  // Floor index the car is travelling from.
+  origin: number[];
+  // Whether the car left its origin from a standstill.
+  departing: boolean[];
 };
 
 /**
@@ -43,37 +62,155 @@ export const Exiting = createRelation({ exclusive: true });
  */
 export const Riding = createRelation({ exclusive: true });
 
+/**
+ * Button graphics inside each elevator, by elevator and floor index.
+ */
+export type Panels = Map<EntityId, EntityId[]>;
+
 /**
  * Module initialization.
  */
 export function initialize(
-  world: World<{ components: { Elevator: Elevator } }>
+  world: World<{
+    components: { Elevator: Elevator };
+    panels: Panels;
+    recorder: Recorder;
+    scheduler: Scheduler;
+    simulation: SimulationStats;
+  }>
 ) {
   const Elevator: Elevator = {
     index: [],
     state: [],
     queue: [],
     direction: [],
+    capacity: [],
+    speed: [],
+    doors: [],
+    buttons: [],
+    origin: [],
+    departing: [],
   };
 
   world.components.Elevator = Elevator;
+  world.panels = new Map();
 
   observe(world, onAdd(Elevator), (elevatorId: EntityId) => {
     Elevator.index[elevatorId] = 0;
     Elevator.state[elevatorId] = "closed";
     Elevator.queue[elevatorId] = [];
     Elevator.direction[elevatorId] = "idle";
+    Elevator.capacity[elevatorId] = 8;
+    Elevator.speed[elevatorId] = 1000;
+    Elevator.doors[elevatorId] = 1000;
+    Elevator.buttons[elevatorId] = [];
+    Elevator.origin[elevatorId] = 0;
+    Elevator.departing[elevatorId] = false;
   });
 
   observe(
     world,
     onSet(Elevator),
     (elevatorId: EntityId, data: Partial<Data<Elevator>>) => {
+      if (
+        data.state !== undefined &&
+        data.state !== Elevator.state[elevatorId]
+      ) {
+        record(world, {
+          type: "elevator",
+          elevator: Elevator.index[elevatorId],
+          state: data.state,
+        });
+      }
+
       for (const [key, value] of Object.entries(data)) {
         Elevator[key as keyof Elevator][elevatorId] = value;
       }
     }
   );
+
+  addSystem(world, {
+    name: "updateElevatorDirection",
+    phase: "logic",
+    run: updateElevatorDirection,
+    after: ["updateController"],
+  });
+  addSystem(world, {
+    name: "updateElevatorClosingState",
+    phase: "logic",
+    run: updateElevatorClosingState,
+    after: ["updateElevatorDirection"],
+  });
+  addSystem(world, {
+    name: "updateElevatorClosedState",
+    phase: "logic",
+    run: updateElevatorClosedState,
+    after: ["updateElevatorClosingState"],
+  });
+  addSystem(world, {
+    name: "updateElevatorMovingState",
+    phase: "logic",
+    run: updateElevatorMovingState,
+    after: ["updateElevatorClosedState"],
+  });
+  addSystem(world, {
+    name: "updateElevatorOpeningState",
+    phase: "logic",
+    run: updateElevatorOpeningState,
+    after: ["updateElevatorMovingState"],
+  });
+  addSystem(world, {
+    name: "updateElevatorOpenState",
+    phase: "logic",
+    run: updateElevatorOpenState,
+    after: ["updateElevatorOpeningState"],
+  });
+  addSystem(world, {
+    name: "updateElevatorGraphics",
+    phase: "render-prep",
+    run: updateElevatorGraphics,
+    after: ["updateFloorGraphics"],
+  });
+}
+
+/**
+ * Find elevators matching more terms, in index order. Queries list entities in
+ * the order they came to match, which shifts as cars start and stop acting and
+ * differs in a restored world, so sort them wherever the controller or the log
+ * could tell.
+ */
+export function queryElevators(
+  world: World<{ components: { Elevator: Elevator } }>,
+  terms: QueryTerm[] = []
+) {
+  const { Elevator } = world.components;
+
+  return [...query(world, [Elevator, ...terms])].sort(
+    (a, b) => Elevator.index[a] - Elevator.index[b]
+  );
+}
+
+/**
+ * Light up a floor button inside an elevator, letting the controller know if
+ * it wasn't.
+ */
+export function pressFloorButton(
+  world: World<{ components: { Elevator: Elevator }; controller: Control }>,
+  elevatorId: EntityId,
+  floor: number
+) {
+  const { Elevator } = world.components;
+  const buttons = Elevator.buttons[elevatorId];
+
+  if (buttons.includes(floor)) {
+    return;
+  }
+
+  setComponent(world, elevatorId, Elevator, {
+    buttons: [...buttons, floor].sort((a, b) => a - b),
+  });
+
+  notify(world, { type: "press", elevator: Elevator.index[elevatorId], floor });
 }
 
 /**
@@ -116,11 +253,14 @@ export function updateElevatorClosedState(
       Acting: Acting;
       Floor: Floor;
     };
+    controller: Control;
+    floors: FloorLookup;
+    metrics: Metrics;
   }>
 ) {
   const { Acting, Elevator, Floor } = world.components;
 
-  for (const elevatorId of query(world, [Elevator, Not(Acting)])) {
+  for (const elevatorId of queryElevators(world, [Not(Acting)])) {
     if (Elevator.state[elevatorId] !== "closed") {
       continue;
     }
@@ -142,7 +282,13 @@ export function updateElevatorClosedState(
       });
 
       setComponent(world, elevatorId, Acting, {
-        duration: 1000,
+        duration: Elevator.doors[elevatorId],
+      });
+
+      notify(world, {
+        type: "stopped",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
       });
 
       continue;
@@ -151,23 +297,30 @@ export function updateElevatorClosedState(
     // Elevator must move.
     // To allow immediate reaction to elevator calls, we move one floor at a time.
     const direction = queue[0] > index ? 1 : -1;
-    const stopId = query(world, [Floor]).find(
-      (floorId) => Floor.index[floorId] === index + direction
-    );
-
-    if (!stopId) {
-      throw new Error(`Expected floor index ${queue[0]} to be found`);
-    }
+    const stopId = getFloorId(world, index + direction);
 
     // Swap floors.
     removeComponent(world, elevatorId, ChildOf(floorId));
     addComponent(world, elevatorId, ChildOf(stopId));
+    recordMove(world);
+
+    // Give the controller a chance to stop at the floor we're approaching.
+    if (queue[0] !== index + direction) {
+      notify(world, {
+        type: "passing",
+        elevator: Elevator.index[elevatorId],
+        floor: index + direction,
+        direction: direction > 0 ? "up" : "down",
+      });
+    }
 
     setComponent(world, elevatorId, Elevator, {
       state: "moving",
+      origin: index,
+      departing: true,
     });
     setComponent(world, elevatorId, Acting, {
-      duration: 1000,
+      duration: Elevator.speed[elevatorId],
     });
   }
 }
@@ -186,7 +339,7 @@ export function updateElevatorOpenState(
 ) {
   const { Acting, Elevator } = world.components;
 
-  for (const elevatorId of query(world, [Elevator, Not(Acting)])) {
+  for (const elevatorId of queryElevators(world, [Not(Acting)])) {
     if (Elevator.state[elevatorId] !== "open") {
       continue;
     }
@@ -200,7 +353,7 @@ export function updateElevatorOpenState(
         state: "closing",
       });
       setComponent(world, elevatorId, Acting, {
-        duration: 1000,
+        duration: Elevator.doors[elevatorId],
       });
     }
   }
@@ -214,18 +367,38 @@ export function updateElevatorOpeningState(
     components: {
       Elevator: Elevator;
       Acting: Acting;
+      Floor: Floor;
     };
+    events: EventBus;
   }>
 ) {
-  const { Acting, Elevator } = world.components;
+  const { Acting, Elevator, Floor } = world.components;
 
-  for (const elevatorId of query(world, [Elevator, Not(Acting)])) {
+  for (const elevatorId of queryElevators(world, [Not(Acting)])) {
     if (Elevator.state[elevatorId] !== "opening") {
       continue;
     }
 
+    const [floorId] = getRelationTargets(world, elevatorId, ChildOf);
+    const direction = Elevator.direction[elevatorId];
+
     setComponent(world, elevatorId, Elevator, {
       state: "open",
+      buttons: Elevator.buttons[elevatorId].filter(
+        (floor) => floor !== Floor.index[floorId]
+      ),
+    });
+
+    // Answer the call for the direction we're going, or both when idle.
+    setComponent(world, floorId, Floor, {
+      up: direction === "down" && Floor.up[floorId],
+      down: direction === "up" && Floor.down[floorId],
+    });
+
+    emit(world, {
+      type: "DoorsOpened",
+      elevator: Elevator.index[elevatorId],
+      floor: Floor.index[floorId],
     });
 
     setComponent(world, elevatorId, Acting, {
@@ -244,11 +417,13 @@ export function updateElevatorClosingState(
       Acting: Acting;
       Floor: Floor;
     };
+    controller: Control;
+    events: EventBus;
   }>
 ) {
   const { Acting, Elevator, Floor } = world.components;
 
-  for (const elevatorId of query(world, [Elevator, Not(Acting)])) {
+  for (const elevatorId of queryElevators(world, [Not(Acting)])) {
     if (Elevator.state[elevatorId] !== "closing") {
       continue;
     }
@@ -262,6 +437,21 @@ export function updateElevatorClosingState(
         state: "closed",
       });
 
+      emit(world, {
+        type: "DoorsClosed",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
+      });
+
+      if (queue.length === 0) {
+        notify(world, { type: "idle", elevator: Elevator.index[elevatorId] });
+        emit(world, {
+          type: "ElevatorIdle",
+          elevator: Elevator.index[elevatorId],
+          floor: index,
+        });
+      }
+
       continue;
     }
 
@@ -271,7 +461,13 @@ export function updateElevatorClosingState(
     });
 
     setComponent(world, elevatorId, Acting, {
-      duration: 1000,
+      duration: Elevator.doors[elevatorId],
+    });
+
+    notify(world, {
+      type: "stopped",
+      elevator: Elevator.index[elevatorId],
+      floor: index,
     });
   }
 }
@@ -286,11 +482,15 @@ export function updateElevatorMovingState(
       Acting: Acting;
       Floor: Floor;
     };
+    controller: Control;
+    events: EventBus;
+    floors: FloorLookup;
+    metrics: Metrics;
   }>
 ) {
   const { Acting, Elevator, Floor } = world.components;
 
-  for (const elevatorId of query(world, [Elevator, Not(Acting)])) {
+  for (const elevatorId of queryElevators(world, [Not(Acting)])) {
     if (Elevator.state[elevatorId] !== "moving") {
       continue;
     }
@@ -304,6 +504,17 @@ export function updateElevatorMovingState(
       setComponent(world, elevatorId, Elevator, {
         state: "closed",
       });
+      notify(world, { type: "idle", elevator: Elevator.index[elevatorId] });
+      emit(world, {
+        type: "ElevatorArrived",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
+      });
+      emit(world, {
+        type: "ElevatorIdle",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
+      });
       continue;
     }
 
@@ -315,7 +526,18 @@ export function updateElevatorMovingState(
       });
 
       setComponent(world, elevatorId, Acting, {
-        duration: 1000,
+        duration: Elevator.doors[elevatorId],
+      });
+
+      notify(world, {
+        type: "stopped",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
+      });
+      emit(world, {
+        type: "ElevatorArrived",
+        elevator: Elevator.index[elevatorId],
+        floor: index,
       });
 
       continue;
@@ -324,47 +546,214 @@ export function updateElevatorMovingState(
     // Elevator must keep moving.
     // To allow immediate reaction to elevator calls, we move one floor at a time.
     const direction = queue[0] > index ? 1 : -1;
-    const stopId = query(world, [Floor]).find(
-      (floorId) => Floor.index[floorId] === index + direction
-    );
-
-    if (!stopId) {
-      throw new Error(`Expected floor index ${queue[0]} to be found`);
-    }
+    const stopId = getFloorId(world, index + direction);
 
     // Swap floors.
     removeComponent(world, elevatorId, ChildOf(floorId));
     addComponent(world, elevatorId, ChildOf(stopId));
+    recordMove(world);
+
+    // Give the controller a chance to stop at the floor we're approaching.
+    if (queue[0] !== index + direction) {
+      notify(world, {
+        type: "passing",
+        elevator: Elevator.index[elevatorId],
+        floor: index + direction,
+        direction: direction > 0 ? "up" : "down",
+      });
+    }
 
     setComponent(world, elevatorId, Elevator, {
       state: "moving",
+      origin: index,
+      departing: false,
     });
 
     setComponent(world, elevatorId, Acting, {
-      duration: 1000,
+      duration: Elevator.speed[elevatorId],
     });
   }
 }
 
+/**
+ * Horizontal position of an elevator's shaft.
+ */
+export function getShaftPosition(index: number) {
+  return 200 + index * 96;
+}
+
+/**
+ * Pick the travel curve for the floor a car is crossing, easing in when it
+ * sets off and easing out when it's about to stop.
+ */
+function getTravelCurve(departing: boolean, stopping: boolean) {
+  if (departing && stopping) {
+    return curves.sigmoid;
+  }
+  if (departing) {
+    return curves.quadratic;
+  }
+  if (stopping) {
+    return curves.decay;
+  }
+  return curves.linear;
+}
+
+/**
+ * Get the button graphics inside an elevator, picking up any it already has
+ * the first time, e.g. restored from a snapshot.
+ */
+function getPanel(
+  world: World<{ components: { Graphic: Graphic }; panels: Panels }>,
+  elevatorId: EntityId
+) {
+  const { Graphic } = world.components;
+
+  let panel = world.panels.get(elevatorId);
+
+  if (panel === undefined) {
+    panel = [];
+
+    for (const childId of query(world, [ChildOf(elevatorId), Graphic])) {
+      const [, index] =
+        /^button-(\d+)$/.exec(ChildOf(elevatorId).role[childId] ?? "") ?? [];
+
+      if (index !== undefined) {
+        panel[Number(index)] = childId;
+      }
+    }
+
+    world.panels.set(elevatorId, panel);
+  }
+
+  return panel;
+}
+
 /**
  * Update elevator graphics.
  */
 export function updateElevatorGraphics(
   world: World<{
-    components: { Elevator: Elevator; Graphic: Graphic };
+    components: {
+      Acting: Acting;
+      Elevator: Elevator;
+      Floor: Floor;
+      Graphic: Graphic;
+    };
+    floors: FloorLookup;
+    panels: Panels;
   }>
 ) {
-  const { Elevator, Graphic } = world.components;
+  const { Acting, Elevator, Floor, Graphic } = world.components;
+
+  const floorIds = query(world, [Floor]);
 
   for (const elevatorId of query(world, [Elevator, Graphic])) {
     const [floorId] = getRelationTargets(world, elevatorId, ChildOf);
     const [, size] = Graphic.size[floorId];
+    const state = Elevator.state[elevatorId];
+    const completion = hasComponent(world, elevatorId, Acting)
+      ? Acting.completion[elevatorId]
+      : 1;
+
+    // The car already belongs to the floor it's heading to, so glide from the
+    // origin floor offset down to zero.
+    let offset = 0;
+
+    if (state === "moving") {
+      const originId = world.floors[Elevator.origin[elevatorId]];
+
+      if (originId !== undefined) {
+        const queue = Elevator.queue[elevatorId];
+        const stopping =
+          queue.length === 0 || queue[0] === Floor.index[floorId];
+        const distance =
+          Graphic.position[originId][1] - Graphic.position[floorId][1];
+
+        offset = interpolate(
+          distance,
+          0,
+          completion,
+          getTravelCurve(Elevator.departing[elevatorId], stopping)
+        );
+      }
+
+      // Swapping floors breaks interpolation with the last step.
+      if (completion === 0) {
+        Graphic.previous[elevatorId] = undefined;
+      }
+    }
 
     setComponent(world, elevatorId, Graphic, {
-      position: [200, 0],
+      position: [getShaftPosition(Elevator.index[elevatorId]), offset],
       size: [size, size],
     });
 
+    // Doors slide apart from the middle of the car.
+    let opening = 0;
+
+    switch (state) {
+      case "opening":
+        opening = interpolate(0, 1, completion, curves.sigmoid);
+        break;
+      case "open":
+        opening = 1;
+        break;
+      case "closing":
+        opening = interpolate(1, 0, completion, curves.sigmoid);
+        break;
+    }
+
+    const width = (size / 2) * (1 - opening);
+
+    // The top of the sprite shows the car's direction, keep it in sight.
+    const lintel = size / 4;
+
+    for (const role of ["left-door", "right-door"] as const) {
+      let doorId = query(world, [ChildOf(elevatorId), Graphic]).find(
+        (id) => ChildOf(elevatorId).role[id] === role
+      );
+
+      if (doorId === undefined) {
+        doorId = addEntity(world);
+        addComponent(world, doorId, ChildOf(elevatorId));
+        ChildOf(elevatorId).role[doorId] = role;
+        addComponent(world, doorId, Graphic);
+      }
+
+      setComponent(world, doorId, Graphic, {
+        position: [role === "left-door" ? 0 : size - width, lintel],
+        size: [width, size - lintel],
+        color: [96, 96, 96, 1],
+      });
+    }
+
+    // Floor buttons panel, to the right of the car, bottom floor first.
+    const height = size / floorIds.length;
+    const panel = getPanel(world, elevatorId);
+
+    for (const id of floorIds) {
+      const index = Floor.index[id];
+
+      let buttonId = panel[index];
+
+      if (buttonId === undefined) {
+        buttonId = addEntity(world);
+        addComponent(world, buttonId, ChildOf(elevatorId));
+        ChildOf(elevatorId).role[buttonId] = `button-${index}`;
+        addComponent(world, buttonId, Graphic);
+        panel[index] = buttonId;
+      }
+
+      setComponent(world, buttonId, Graphic, {
+        position: [size + 4, size - height * (index + 1)],
+        size: [4, Math.max(1, height - 1)],
+        color: Elevator.buttons[elevatorId].includes(index)
+          ? [255, 200, 0, 1]
+          : [64, 64, 64, 1],
+      });
+    }
+
     switch (Elevator.direction[elevatorId]) {
       case "up":
         Graphic.image[elevatorId] = "./elevator-up.gif";
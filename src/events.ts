@@ -0,0 +1,126 @@
+import { type EntityId, type World } from "bitecs";
+import { addSystem, type Scheduler } from "./scheduler";
+
+/**
+ * Something that happened in the simulation. Elevators and floors are
+ * referred to by index, passengers by entity id.
+ */
+export type DomainEvent =
+  | {
+      type: "PassengerSpawned";
+      passenger: EntityId;
+      floor: number;
+      destination: number;
+    }
+  | {
+      type: "PassengerBoarded";
+      passenger: EntityId;
+      elevator: number;
+      floor: number;
+    }
+  | {
+      type: "PassengerDelivered";
+      passenger: EntityId;
+      elevator: number;
+      floor: number;
+    }
+  | { type: "ElevatorArrived"; elevator: number; floor: number }
+  | { type: "DoorsOpened"; elevator: number; floor: number }
+  | { type: "DoorsClosed"; elevator: number; floor: number }
+  | { type: "ElevatorIdle"; elevator: number; floor: number };
+
+/**
+ * Event of a given type.
+ */
+export type EventOf<T extends DomainEvent["type"]> = Extract<
+  DomainEvent,
+  { type: T }
+>;
+
+/**
+ * Function called with each event of a given type.
+ */
+export type Listener<T extends DomainEvent["type"]> = (
+  event: EventOf<T>
+) => void;
+
+/**
+ * Events emitted this tick and who's listening.
+ */
+export type EventBus = {
+  pending: DomainEvent[];
+  listeners: Map<DomainEvent["type"], Set<(event: never) => void>>;
+};
+
+/**
+ * Initialize module.
+ */
+export function initialize(
+  world: World<{ events: EventBus; scheduler: Scheduler }>
+) {
+  world.events = {
+    pending: [],
+    listeners: new Map(),
+  };
+
+  addSystem(world, {
+    name: "drainEvents",
+    phase: "post-logic",
+    run: drainEvents,
+    after: ["updateLevelOutcome"],
+  });
+}
+
+/**
+ * Queue an event, listeners get it once the tick is over.
+ */
+export function emit(world: World<{ events: EventBus }>, event: DomainEvent) {
+  world.events.pending.push(event);
+}
+
+/**
+ * Listen to events of a given type. Returns a function to stop listening.
+ */
+export function subscribe<T extends DomainEvent["type"]>(
+  world: World<{ events: EventBus }>,
+  type: T,
+  listener: Listener<T>
+) {
+  let listeners = world.events.listeners.get(type);
+
+  if (!listeners) {
+    listeners = new Set();
+    world.events.listeners.set(type, listeners);
+  }
+
+  listeners.add(listener);
+
+  return () => unsubscribe(world, type, listener);
+}
+
+/**
+ * Stop listening to events of a given type.
+ */
+export function unsubscribe<T extends DomainEvent["type"]>(
+  world: World<{ events: EventBus }>,
+  type: T,
+  listener: Listener<T>
+) {
+  world.events.listeners.get(type)?.delete(listener);
+}
+
+/**
+ * Deliver the events emitted this tick, in order, and clear them.
+ */
+export function drainEvents(world: World<{ events: EventBus }>) {
+  const events = world.events.pending;
+  world.events.pending = [];
+
+  for (const event of events) {
+    const listeners = world.events.listeners.get(event.type) ?? [];
+
+    for (const listener of listeners) {
+      (listener as (event: DomainEvent) => void)(event);
+    }
+  }
+}
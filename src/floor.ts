@@ -10,7 +10,9 @@ import {
   type EntityId,
   type World,
 } from "bitecs";
+import { notify, type Control } from "./controller";
 import { type Graphic } from "./graphic";
+import { addSystem, type Scheduler } from "./scheduler";
 import { ChildOf, type Data } from "./shared";
 
 /**
@@ -18,20 +20,50 @@ import { ChildOf, type Data } from "./shared";
  */
 export type Floor = {
   index: number[];
+  label: string[];
+  up: boolean[];
+  down: boolean[];
+  // Passengers waiting to go each way.
+  waiting: Record<"up" | "down", number>[];
 };
 
+/**
+ * Height of each floor, in pixels.
+ */
+export const floorHeight = 64;
+
+/**
+ * Floor entities by floor index.
+ */
+export type FloorLookup = EntityId[];
+
 /**
  * Initialize module.
  */
-export function initialize(world: World<{ components: { Floor: Floor } }>) {
+export function initialize(
+  world: World<{
+    components: { Floor: Floor };
+    floors: FloorLookup;
+    scheduler: Scheduler;
+  }>
+) {
   const Floor = {
     index: [],
+    label: [],
+    up: [],
+    down: [],
+    waiting: [],
   } as Floor;
 
   world.components.Floor = Floor;
+  world.floors = [];
 
   observe(world, onAdd(Floor), (entityId) => {
     Floor.index[entityId] = 0;
+    Floor.label[entityId] = "";
+    Floor.up[entityId] = false;
+    Floor.down[entityId] = false;
+    Floor.waiting[entityId] = { up: 0, down: 0 };
   });
 
   observe(
@@ -41,8 +73,86 @@ export function initialize(world: World<{ components: { Floor: Floor } }>) {
       for (const [key, value] of Object.entries(data)) {
         Floor[key as keyof Floor][floorId] = value;
       }
+
+      if (data.index !== undefined) {
+        world.floors[data.index] = floorId;
+      }
     }
   );
+
+  addSystem(world, {
+    name: "updateFloorGraphics",
+    phase: "render-prep",
+    run: updateFloorGraphics,
+    after: ["updateBuildingGraphics"],
+  });
+}
+
+/**
+ * Find a floor by index.
+ */
+export function getFloorId(
+  world: World<{ floors: FloorLookup }>,
+  index: number
+) {
+  const floorId = world.floors[index];
+
+  if (floorId === undefined) {
+    throw new Error(`Expected floor index ${index} to be found`);
+  }
+
+  return floorId;
+}
+
+/**
+ * Rebuild the floor lookup, e.g. after writing component data directly.
+ */
+export function indexFloors(
+  world: World<{ components: { Floor: Floor }; floors: FloorLookup }>
+) {
+  const { Floor } = world.components;
+
+  world.floors = [];
+
+  for (const floorId of query(world, [Floor])) {
+    world.floors[Floor.index[floorId]] = floorId;
+  }
+}
+
+/**
+ * Light up a floor's call button, letting the controller know if it wasn't.
+ */
+export function pressCallButton(
+  world: World<{ components: { Floor: Floor }; controller: Control }>,
+  floorId: EntityId,
+  direction: "up" | "down"
+) {
+  const { Floor } = world.components;
+
+  if (Floor[direction][floorId]) {
+    return;
+  }
+
+  setComponent(world, floorId, Floor, { [direction]: true });
+
+  notify(world, { type: "call", floor: Floor.index[floorId], direction });
+}
+
+/**
+ * Count passengers who start, or stop, waiting to go one way from a floor.
+ */
+export function countWaiting(
+  world: World<{ components: { Floor: Floor } }>,
+  floorId: EntityId,
+  direction: "up" | "down",
+  change: number
+) {
+  const { Floor } = world.components;
+  const waiting = Floor.waiting[floorId];
+
+  setComponent(world, floorId, Floor, {
+    waiting: { ...waiting, [direction]: waiting[direction] + change },
+  });
 }
 
 /**
@@ -57,7 +167,7 @@ export function updateFloorGraphics(
 
   for (const floorId of query(world, [Floor, Graphic])) {
     const index = Floor.index[floorId];
-    const height = 64;
+    const height = floorHeight;
     const gap = 0;
 
     const [buildingId] = getRelationTargets(world, floorId, ChildOf);
@@ -86,19 +196,61 @@ export function updateFloorGraphics(
       });
     }
 
-    const rightWall = query(world, [ChildOf(floorId), Graphic]).find((id) => {
+    let labelId = query(world, [ChildOf(floorId), Graphic]).find((id) => {
+      return ChildOf(floorId).role[id] === "label";
+    });
+
+    if (labelId === undefined) {
+      labelId = addEntity(world);
+      addComponent(world, labelId, ChildOf(floorId));
+      ChildOf(floorId).role[labelId] = "label";
+      addComponent(world, labelId, Graphic);
+    }
+
+    setComponent(world, labelId, Graphic, {
+      position: [176, 32],
+      color: [255, 255, 255, 1],
+      font: "12px sans-serif",
+      text: Floor.label[floorId],
+    });
+
+    for (const direction of ["up", "down"] as const) {
+      const role = `${direction}-button`;
+
+      let buttonId = query(world, [ChildOf(floorId), Graphic]).find((id) => {
+        return ChildOf(floorId).role[id] === role;
+      });
+
+      if (buttonId === undefined) {
+        buttonId = addEntity(world);
+        addComponent(world, buttonId, ChildOf(floorId));
+        ChildOf(floorId).role[buttonId] = role;
+        addComponent(world, buttonId, Graphic);
+      }
+
+      setComponent(world, buttonId, Graphic, {
+        position: [160, direction === "up" ? 20 : 36],
+        size: [8, 8],
+        color: Floor[direction][floorId] ? [255, 200, 0, 1] : [64, 64, 64, 1],
+      });
+    }
+
+    let rightWall = query(world, [ChildOf(floorId), Graphic]).find((id) => {
       return ChildOf(floorId).role[id] === "right-wall";
     });
 
     if (rightWall === undefined) {
-      const id = addEntity(world);
-      addComponent(world, id, ChildOf(floorId));
-      ChildOf(floorId).role[id] = "right-wall";
-      setComponent(world, id, Graphic, {
-        position: [Graphic.size[buildingId][0] - height, 0],
-        size: [height, height],
-        image: "./floor-right-wall.gif",
-      });
+      rightWall = addEntity(world);
+      addComponent(world, rightWall, ChildOf(floorId));
+      ChildOf(floorId).role[rightWall] = "right-wall";
+      addComponent(world, rightWall, Graphic);
     }
+
+    // The building widens with the viewport, keep the wall at its edge.
+    setComponent(world, rightWall, Graphic, {
+      position: [Graphic.size[buildingId][0] - height, 0],
+      size: [height, height],
+      image: "./floor-right-wall.gif",
+    });
   }
 }
@@ -7,6 +7,9 @@ import {
   type EntityId,
   type World,
 } from "bitecs";
+import { getCameraOffset, type Camera } from "./camera";
+import { type Elevator } from "./elevator";
+import { interpolate } from "./math";
 import { ChildOf, type Data, type Time } from "./shared";
 
 /**
@@ -14,6 +17,7 @@ import { ChildOf, type Data, type Time } from "./shared";
  */
 export type Graphic = {
   position: [number, number][];
+  previous: ([number, number] | undefined)[];
   size: [number, number][];
   rotation: number[];
   scale: [number, number][];
@@ -31,6 +35,7 @@ export type RenderStats = {
   delta: number;
   count: number;
   size: [number, number];
+  alpha: number;
 };
 
 /**
@@ -41,6 +46,7 @@ export function initialize(
 ) {
   const Graphic = {
     position: [],
+    previous: [],
     size: [],
     rotation: [],
     scale: [],
@@ -57,10 +63,12 @@ export function initialize(
     delta: 0,
     count: 0,
     size: [800, 600],
+    alpha: 1,
   } as RenderStats;
 
   observe(world, onAdd(Graphic), (entityId: EntityId) => {
     Graphic.position[entityId] = [0, 0];
+    Graphic.previous[entityId] = undefined;
     Graphic.size[entityId] = [0, 0];
     Graphic.color[entityId] = [0, 0, 0, 1];
     Graphic.font[entityId] = "12 sans-serif";
@@ -82,95 +90,138 @@ export function initialize(
   );
 }
 
-const images = new Map<string, HTMLImageElement>();
+/**
+ * Remember each graphic position before the next step, so rendering can
+ * interpolate between steps. Graphics added during the step have no previous
+ * position and are drawn where they are.
+ */
+export function updatePreviousGraphics(
+  world: World<{ components: { Graphic: Graphic } }>
+) {
+  const { Graphic } = world.components;
 
-export function getImage(src: string): HTMLImageElement {
-  if (!images.has(src)) {
-    const img = new Image();
-    img.src = src;
-    images.set(src, img);
+  for (const entityId of query(world, [Graphic])) {
+    Graphic.previous[entityId] = Graphic.position[entityId];
   }
-  return images.get(src)!;
 }
 
 /**
- * Paint an entity and its children to the given canvas.
+ * Drawing backend. Graphics are drawn parent first, each one between enter
+ * and leave, so children are placed relative to their parent.
+ */
+export type Renderer = {
+  // Start a frame, clearing the last one.
+  begin(size: [number, number]): void;
+  // Move into a graphic's own space.
+  enter(
+    position: [number, number],
+    rotation: number,
+    scale: [number, number]
+  ): void;
+  fill(size: [number, number], color: [number, number, number, number]): void;
+  text(
+    text: string,
+    font: string,
+    color: [number, number, number, number]
+  ): void;
+  // Draw an image stretched to size, or tiled across it given a pattern,
+  // e.g. repeat-x.
+  image(src: string, size: [number, number], pattern: string): void;
+  // Move back into the parent's space.
+  leave(): void;
+  // Finish the frame.
+  end(): void;
+};
+
+/**
+ * Create a renderer that draws nothing, for running graphics systems headless.
+ */
+export function createNullRenderer(): Renderer {
+  return {
+    begin() {},
+    enter() {},
+    fill() {},
+    text() {},
+    image() {},
+    leave() {},
+    end() {},
+  };
+}
+
+/**
+ * Paint an entity and its children.
  */
-export function paint(
-  world: World<{ components: { Graphic: Graphic } }>,
+function paint(
+  world: World<{ components: { Graphic: Graphic }; rendering: RenderStats }>,
   entityId: EntityId,
-  ctx: CanvasRenderingContext2D
+  renderer: Renderer
 ) {
   const { Graphic } = world.components;
-
-  ctx.save();
-
-  ctx.translate(...Graphic.position[entityId]);
-  ctx.rotate(Graphic.rotation[entityId]);
-  ctx.scale(...Graphic.scale[entityId]);
+  const { alpha } = world.rendering;
+
+  const position = Graphic.position[entityId];
+  const previous = Graphic.previous[entityId] ?? position;
+
+  renderer.enter(
+    [
+      interpolate(previous[0], position[0], alpha),
+      interpolate(previous[1], position[1], alpha),
+    ],
+    Graphic.rotation[entityId],
+    Graphic.scale[entityId]
+  );
 
   if (Graphic.text[entityId]) {
-    ctx.font = Graphic.font[entityId];
-    ctx.fillText(Graphic.text[entityId], 0, 0);
+    renderer.text(
+      Graphic.text[entityId],
+      Graphic.font[entityId],
+      Graphic.color[entityId]
+    );
   } else if (Graphic.image[entityId]) {
-    const img = getImage(Graphic.image[entityId]);
-
-    if (Graphic.pattern[entityId]) {
-      const pattern = ctx.createPattern(img, Graphic.pattern[entityId]);
-
-      if (!pattern) {
-        throw new Error(
-          `Failed to create pattern with image ${Graphic.image[entityId]}`
-        );
-      }
-
-      ctx.fillStyle = pattern;
-      ctx.fillRect(0, 0, ...Graphic.size[entityId]);
-    } else {
-      ctx.drawImage(
-        img,
-        0,
-        0,
-        Graphic.size[entityId][0],
-        Graphic.size[entityId][1]
-      );
-    }
+    renderer.image(
+      Graphic.image[entityId],
+      Graphic.size[entityId],
+      Graphic.pattern[entityId]
+    );
   } else {
-    ctx.fillStyle = `rgba(${Graphic.color[entityId].join(", ")})`;
-    ctx.fillRect(0, 0, ...Graphic.size[entityId]);
+    renderer.fill(Graphic.size[entityId], Graphic.color[entityId]);
   }
 
   for (const childId of query(world, [Graphic, ChildOf(entityId)])) {
-    paint(world, childId, ctx);
+    paint(world, childId, renderer);
   }
 
-  ctx.restore();
+  renderer.leave();
 }
 
 /**
- * Render the world.
+ * Render the world, as seen by the camera.
  */
 export function render(
   world: World<{
-    components: { Graphic: Graphic };
+    components: { Elevator: Elevator; Graphic: Graphic };
+    camera: Camera;
     time: Time;
     rendering: RenderStats;
   }>,
-  ctx: CanvasRenderingContext2D
+  renderer: Renderer
 ) {
   const start = performance.now();
+  const { zoom } = world.camera;
+  const offset = getCameraOffset(world);
 
-  ctx.canvas.width = world.rendering.size[0];
-  ctx.canvas.height = world.rendering.size[1];
-
-  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  renderer.begin(world.rendering.size);
+  renderer.enter([-offset[0] * zoom, -offset[1] * zoom], 0, [zoom, zoom]);
 
   const { Graphic } = world.components;
 
   for (const entityId of query(world, [Graphic, Hierarchy(ChildOf, 0)])) {
-    paint(world, entityId, ctx);
+    paint(world, entityId, renderer);
   }
 
+  renderer.leave();
+  renderer.end();
+
   world.rendering.count += 1;
   world.rendering.delta = performance.now() - start;
 }
@@ -0,0 +1,229 @@
+import { type World } from "bitecs";
+import { type Metrics } from "./metrics";
+import { addSystem, type Scheduler } from "./scheduler";
+import { type Time } from "./shared";
+import { type Traffic } from "./traffic";
+
+/**
+ * Passenger spawn rules.
+ */
+export type Spawn = {
+  // Passenger streams, all flowing at the same time.
+  traffic: Traffic[];
+  // Most passengers in the building at once.
+  limit: number;
+};
+
+/**
+ * Elevator car definition.
+ */
+export type Car = {
+  // Most passengers the car fits.
+  capacity: number;
+  // Floor index the car starts at, the first one if omitted.
+  floor?: number;
+  // Milliseconds to travel one floor.
+  speed?: number;
+  // Milliseconds to open or close the doors.
+  doors?: number;
+};
+
+/**
+ * Level goal, every criteria is optional. Times in milliseconds.
+ */
+export type Objective = {
+  // Passengers to deliver to win.
+  delivered?: number;
+  // Time allowed to win.
+  duration?: number;
+  // Longest any passenger may wait for an elevator.
+  maxWait?: number;
+  // Most floors elevators may travel, altogether.
+  maxMoves?: number;
+};
+
+/**
+ * Challenge definition.
+ */
+export type Level = {
+  id: string;
+  name: string;
+  floors: number;
+  // Floor names, bottom first. Floors are numbered if omitted.
+  labels?: string[];
+  elevators: Car[];
+  spawn: Spawn;
+  objective: Objective;
+  // Random seed, so every play goes the same way.
+  seed?: number;
+};
+
+/**
+ * Level progress.
+ */
+export type LevelState = {
+  current: Level;
+  outcome: "pending" | "success" | "failure";
+  reason: string;
+};
+
+/**
+ * Available levels, in order.
+ */
+export const levels: Level[] = [
+  {
+    id: "free-play",
+    name: "Free play",
+    floors: 7,
+    elevators: [{ capacity: 8 }],
+    spawn: { traffic: [{ pattern: "uniform", rate: 20 }], limit: 100 },
+    objective: {},
+  },
+  {
+    id: "warm-up",
+    name: "Warm up",
+    floors: 4,
+    labels: ["L", "1", "2", "3"],
+    elevators: [{ capacity: 8 }],
+    spawn: { traffic: [{ pattern: "uniform", rate: 15 }], limit: 20 },
+    objective: { delivered: 10, duration: 60000 },
+  },
+  {
+    id: "no-waiting",
+    name: "No waiting",
+    floors: 6,
+    elevators: [{ capacity: 8 }],
+    spawn: { traffic: [{ pattern: "uniform", rate: 20 }], limit: 30 },
+    objective: { delivered: 20, duration: 90000, maxWait: 30000 },
+  },
+  {
+    id: "energy-saver",
+    name: "Energy saver",
+    floors: 7,
+    elevators: [{ capacity: 4 }],
+    spawn: { traffic: [{ pattern: "uniform", rate: 20 }], limit: 30 },
+    objective: { delivered: 25, maxMoves: 80 },
+  },
+  {
+    id: "two-cars",
+    name: "Two cars",
+    floors: 8,
+    elevators: [{ capacity: 8 }, { capacity: 8 }],
+    spawn: { traffic: [{ pattern: "uniform", rate: 35 }], limit: 50 },
+    objective: { delivered: 40, duration: 120000, maxWait: 40000 },
+  },
+  {
+    id: "rush-hour",
+    name: "Rush hour",
+    floors: 9,
+    elevators: [
+      { capacity: 12 },
+      { capacity: 12 },
+      { capacity: 6 },
+      { capacity: 6 },
+    ],
+    spawn: {
+      traffic: [
+        { pattern: "up-peak", rate: 45 },
+        { pattern: "uniform", rate: 15 },
+      ],
+      limit: 80,
+    },
+    objective: { delivered: 100, duration: 150000, maxWait: 45000 },
+  },
+  {
+    id: "lunch-break",
+    name: "Lunch break",
+    floors: 8,
+    elevators: [{ capacity: 8 }, { capacity: 8 }],
+    spawn: { traffic: [{ pattern: "lunch", rate: 40 }], limit: 60 },
+    objective: { delivered: 50, duration: 120000, maxWait: 45000 },
+  },
+  {
+    id: "closing-time",
+    name: "Closing time",
+    floors: 10,
+    elevators: [{ capacity: 10 }, { capacity: 10 }, { capacity: 10 }],
+    spawn: {
+      traffic: [
+        { pattern: "down-peak", rate: 20 },
+        // Everybody leaves when the clock strikes.
+        { pattern: "down-peak", rate: 120, start: 30000, end: 45000 },
+      ],
+      limit: 80,
+    },
+    objective: { delivered: 50, duration: 150000 },
+  },
+];
+
+/**
+ * Find a level by its id.
+ */
+export function getLevel(id: string) {
+  const level = levels.find((level) => level.id === id);
+
+  if (!level) {
+    throw new Error(
+      `Expected level to be one of ${levels.map((l) => l.id).join(", ")}, got ${id}`
+    );
+  }
+
+  return level;
+}
+
+/**
+ * Initialize module.
+ */
+export function initialize(
+  world: World<{ level: LevelState; scheduler: Scheduler }>
+) {
+  world.level = {
+    current: levels[0],
+    outcome: "pending",
+    reason: "",
+  };
+
+  addSystem(world, {
+    name: "updateLevelOutcome",
+    phase: "post-logic",
+    run: updateLevelOutcome,
+    after: ["updateMetrics"],
+  });
+}
+
+/**
+ * Evaluate the objective and settle the outcome once it's met or violated.
+ */
+export function updateLevelOutcome(
+  world: World<{ level: LevelState; metrics: Metrics; time: Time }>
+) {
+  const { level, metrics, time } = world;
+  const { delivered, duration, maxWait, maxMoves } = level.current.objective;
+
+  if (level.outcome !== "pending") {
+    return;
+  }
+
+  const fail = (reason: string) => {
+    level.outcome = "failure";
+    level.reason = reason;
+  };
+
+  if (maxWait !== undefined && metrics.maxWait > maxWait) {
+    return fail(`A passenger waited more than ${maxWait / 1000}s`);
+  }
+
+  if (maxMoves !== undefined && metrics.moves > maxMoves) {
+    return fail(`Elevators moved more than ${maxMoves} floors`);
+  }
+
+  if (delivered !== undefined && metrics.delivered >= delivered) {
+    level.outcome = "success";
+    level.reason = `Delivered ${metrics.delivered} passengers in ${(time.elapsed / 1000).toFixed(1)}s`;
+    return;
+  }
+
+  if (duration !== undefined && time.elapsed >= duration) {
+    return fail(`Ran out of time after ${duration / 1000}s`);
+  }
+}
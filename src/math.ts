@@ -1,14 +1,30 @@
+import { type Random } from "./shared";
+
+/**
+ * Get a random fraction between 0 (inclusive) and 1 (exclusive).
+ * Uses Mulberry32, so the same seed always yields the same sequence.
+ */
+export function fraction(generator: Random) {
+  generator.state = (generator.state + 0x6d2b79f5) >>> 0;
+
+  let t = generator.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+  return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+}
+
 /**
  * Get a random number between max (exclusive) and min (inclusive).
  */
-export function random(max: number, min = 0) {
-  return Math.floor(Math.random() * (max - min)) + min;
+export function random(generator: Random, max: number, min = 0) {
+  return Math.floor(fraction(generator) * (max - min)) + min;
 }
 
 /**
  * Common curve functions.
  */
-const curves = {
+export const curves = {
   // Maintains constant speed throughout the completion.
   linear: (x: number) => x,
   // Starts slowly and accelerates towards the end.
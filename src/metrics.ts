@@ -0,0 +1,120 @@
+import { type World } from "bitecs";
+import { type FloorLookup } from "./floor";
+import { getLine, type Lines, type Passenger } from "./passenger";
+import { addSystem, type Scheduler } from "./scheduler";
+import { type Time } from "./shared";
+
+/**
+ * Trip statistics, times in milliseconds.
+ */
+export type Metrics = {
+  spawned: number;
+  boarded: number;
+  delivered: number;
+  moves: number;
+  totalWait: number;
+  averageWait: number;
+  // Longest wait so far, counting passengers still waiting.
+  maxWait: number;
+  totalRide: number;
+  averageRide: number;
+  maxRide: number;
+  // Passengers delivered per minute.
+  throughput: number;
+};
+
+/**
+ * Initialize module.
+ */
+export function initialize(
+  world: World<{ metrics: Metrics; scheduler: Scheduler }>
+) {
+  world.metrics = {
+    spawned: 0,
+    boarded: 0,
+    delivered: 0,
+    moves: 0,
+    totalWait: 0,
+    averageWait: 0,
+    maxWait: 0,
+    totalRide: 0,
+    averageRide: 0,
+    maxRide: 0,
+    throughput: 0,
+  };
+
+  addSystem(world, {
+    name: "updateMetrics",
+    phase: "post-logic",
+    run: updateMetrics,
+  });
+}
+
+/**
+ * Record a passenger entering the building.
+ */
+export function recordSpawn(world: World<{ metrics: Metrics }>) {
+  world.metrics.spawned += 1;
+}
+
+/**
+ * Record how long a passenger waited before boarding.
+ */
+export function recordWait(world: World<{ metrics: Metrics }>, wait: number) {
+  const { metrics } = world;
+
+  metrics.boarded += 1;
+  metrics.totalWait += wait;
+  metrics.averageWait = metrics.totalWait / metrics.boarded;
+  metrics.maxWait = Math.max(metrics.maxWait, wait);
+}
+
+/**
+ * Record how long a passenger rode before reaching their destination.
+ */
+export function recordRide(world: World<{ metrics: Metrics }>, ride: number) {
+  const { metrics } = world;
+
+  metrics.delivered += 1;
+  metrics.totalRide += ride;
+  metrics.averageRide = metrics.totalRide / metrics.delivered;
+  metrics.maxRide = Math.max(metrics.maxRide, ride);
+}
+
+/**
+ * Record an elevator moving one floor.
+ */
+export function recordMove(world: World<{ metrics: Metrics }>) {
+  world.metrics.moves += 1;
+}
+
+/**
+ * Update metrics that depend on time. Lines keep passengers in the order they
+ * arrived, so whoever is first in line on a floor has waited longest there.
+ */
+export function updateMetrics(
+  world: World<{
+    components: { Passenger: Passenger };
+    floors: FloorLookup;
+    lines: Lines;
+    metrics: Metrics;
+    time: Time;
+  }>
+) {
+  const { Passenger } = world.components;
+  const { metrics, time } = world;
+  const minutes = time.elapsed / 60000;
+
+  metrics.throughput = minutes > 0 ? metrics.delivered / minutes : 0;
+
+  for (const floorId of world.floors) {
+    const [passengerId] = getLine(world, floorId);
+
+    if (passengerId !== undefined) {
+      metrics.maxWait = Math.max(
+        metrics.maxWait,
+        time.elapsed - Passenger.spawnedAt[passengerId]
+      );
+    }
+  }
+}
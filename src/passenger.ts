@@ -4,6 +4,7 @@ import {
   createRelation,
   getEntityComponents,
   getRelationTargets,
+  hasComponent,
   Not,
   observe,
   onAdd,
@@ -17,11 +18,35 @@ import {
   type World,
 } from "bitecs";
 import { type Acting } from "./acting";
-import { type Elevator } from "./elevator";
-import { type Floor } from "./floor";
+import { type Control } from "./controller";
+import {
+  getShaftPosition,
+  pressFloorButton,
+  queryElevators,
+  type Elevator,
+} from "./elevator";
+import { emit, type EventBus } from "./events";
+import {
+  countWaiting,
+  getFloorId,
+  pressCallButton,
+  type Floor,
+  type FloorLookup,
+} from "./floor";
 import { type Graphic } from "./graphic";
-import { random } from "./math";
-import { ChildOf, type Data, type Time } from "./shared";
+import { type LevelState } from "./level";
+import { interpolate } from "./math";
+import { recordRide, recordSpawn, recordWait, type Metrics } from "./metrics";
+import { record, type Recorder } from "./recording";
+import { addSystem, type Scheduler } from "./scheduler";
+import {
+  ChildOf,
+  type Data,
+  type Random,
+  type SimulationStats,
+  type Time,
+} from "./shared";
+import { generators, isArriving, isFlowing } from "./traffic";
 
 /**
  * Passenger component.
@@ -29,6 +54,11 @@ import { ChildOf, type Data, type Time } from "./shared";
 export type Passenger = {
   index: number[];
   state: ("waiting" | "boarding" | "riding" | "exiting")[];
+  spawnedAt: number[];
+  boardedAt: number[];
+  exitedAt: number[];
+  // Horizontal position, relative to the current parent, walked from.
+  origin: number[];
 };
 
 /**
@@ -36,33 +66,151 @@ export type Passenger = {
  */
 export const GoingTo = createRelation({ exclusive: true });
 
+/**
+ * Passengers holding a place in line on each floor or in each elevator, in
+ * order, and the lines that changed since indexes were last updated.
+ */
+export type Lines = {
+  byParent: Map<EntityId, EntityId[]>;
+  changed: Set<EntityId>;
+};
+
 /**
  * Module initialization.
  */
 export function initialize(
-  world: World<{ components: { Passenger: Passenger } }>
+  world: World<{
+    components: { Passenger: Passenger };
+    lines: Lines;
+    recorder: Recorder;
+    scheduler: Scheduler;
+    simulation: SimulationStats;
+  }>
 ) {
   const Passenger: Passenger = {
     index: [],
     state: [],
+    spawnedAt: [],
+    boardedAt: [],
+    exitedAt: [],
+    origin: [],
   };
 
   world.components.Passenger = Passenger;
+  world.lines = {
+    byParent: new Map(),
+    changed: new Set(),
+  };
 
   observe(world, onAdd(Passenger), (passengerId: EntityId) => {
     Passenger.index[passengerId] = 0;
     Passenger.state[passengerId] = "waiting";
+    Passenger.spawnedAt[passengerId] = 0;
+    Passenger.boardedAt[passengerId] = 0;
+    Passenger.exitedAt[passengerId] = 0;
+    Passenger.origin[passengerId] = 0;
   });
 
   observe(
     world,
     onSet(Passenger),
     (passengerId: EntityId, data: Partial<Data<Passenger>>) => {
+      if (
+        data.state !== undefined &&
+        data.state !== Passenger.state[passengerId]
+      ) {
+        record(world, {
+          type: "passenger",
+          passenger: passengerId,
+          state: data.state,
+        });
+      }
+
       for (const [key, value] of Object.entries(data)) {
         Passenger[key as keyof Passenger][passengerId] = value;
       }
     }
   );
+
+  addSystem(world, {
+    name: "managePassengerLifecycle",
+    phase: "input",
+    run: managePassengerLifecycle,
+    after: ["updateActingCompletion"],
+  });
+  addSystem(world, {
+    name: "updatePassengerIndex",
+    phase: "logic",
+    run: updatePassengerIndex,
+  });
+  addSystem(world, {
+    name: "updatePassengerState",
+    phase: "logic",
+    run: updatePassengerState,
+    after: ["updatePassengerIndex"],
+  });
+  addSystem(world, {
+    name: "updatePassengerGraphics",
+    phase: "render-prep",
+    run: updatePassengerGraphics,
+    after: ["updateElevatorGraphics"],
+  });
+}
+
+/**
+ * Horizontal position of a passenger in line, relative to its floor or car.
+ */
+export function getLinePosition(index: number) {
+  return index * 10;
+}
+
+/**
+ * Passengers in line on a floor or in an elevator, in order.
+ */
+export function getLine(world: World<{ lines: Lines }>, parentId: EntityId) {
+  return world.lines.byParent.get(parentId) ?? [];
+}
+
+/**
+ * Put a passenger at the end of the line on a floor or in an elevator.
+ */
+export function joinLine(
+  world: World<{ lines: Lines }>,
+  parentId: EntityId,
+  passengerId: EntityId
+) {
+  const { lines } = world;
+
+  let line = lines.byParent.get(parentId);
+
+  if (!line) {
+    line = [];
+    lines.byParent.set(parentId, line);
+  }
+
+  line.push(passengerId);
+  lines.changed.add(parentId);
+}
+
+/**
+ * Take a passenger out of the line on a floor or in an elevator.
+ */
+export function leaveLine(
+  world: World<{ lines: Lines }>,
+  parentId: EntityId,
+  passengerId: EntityId
+) {
+  const line = getLine(world, parentId);
+  const index = line.indexOf(passengerId);
+
+  if (index === -1) {
+    throw new Error(
+      `Expected passenger ${passengerId} to be in line at ${parentId}`
+    );
+  }
+
+  line.splice(index, 1);
+  world.lines.changed.add(parentId);
 }
 
 /**
@@ -72,21 +220,32 @@ export function managePassengerLifecycle(
   world: World<{
     components: {
       Passenger: Passenger;
-      Elevator: Elevator;
       Floor: Floor;
       Acting: Acting;
       Graphic: Graphic;
     };
     time: Time;
+    random: Random;
+    controller: Control;
+    metrics: Metrics;
+    level: LevelState;
+    recorder: Recorder;
+    simulation: SimulationStats;
+    events: EventBus;
+    floors: FloorLookup;
+    lines: Lines;
   }>
 ) {
-  const { Elevator, Passenger, Floor, Acting, Graphic } = world.components;
+  const { Passenger, Acting, Graphic } = world.components;
+  const { spawn } = world.level.current;
 
-  for (const passengerId of query(world, [Passenger, Not(Acting)])) {
-    if (Passenger.state[passengerId] !== "exiting") {
-      continue;
-    }
+  // Remove in id order, so freed ids are handed out again in the same order
+  // however the query happens to list passengers, e.g. in a restored world.
+  const exitedIds = query(world, [Passenger, Not(Acting)])
+    .filter((id) => Passenger.state[id] === "exiting")
+    .sort((a, b) => a - b);
 
+  for (const passengerId of exitedIds) {
     const [parentId] = getRelationTargets(world, passengerId, ChildOf);
     removeComponent(world, passengerId, ChildOf(parentId));
 
@@ -102,47 +261,58 @@ export function managePassengerLifecycle(
     removeEntity(world, passengerId);
   }
 
-  const passengerIds = query(world, [Passenger]);
+  for (const traffic of spawn.traffic) {
+    if (!isFlowing(traffic, world.time.elapsed)) {
+      continue;
+    }
 
-  if (passengerIds.length >= 100) {
-    return;
-  }
+    if (!isArriving(world.random, traffic, world.time.delta)) {
+      continue;
+    }
 
-  if (random(2000) > 10) {
-    return;
-  }
+    if (query(world, [Passenger]).length >= spawn.limit) {
+      return;
+    }
 
-  const floorIds = query(world, [Floor]);
-  const floorId = floorIds[random(floorIds.length)];
-  const destinationIds = floorIds.filter((f) => f !== floorId);
-  const destinationId = destinationIds[random(destinationIds.length)];
-  const index = query(world, [Passenger, ChildOf(floorId)]).length;
+    const [origin, destination] = generators[traffic.pattern](
+      world.random,
+      world.floors.length
+    );
 
-  const passengerId = addEntity(world);
+    const floorId = getFloorId(world, origin);
+    const destinationId = getFloorId(world, destination);
+    const direction = destination > origin ? "up" : "down";
 
-  addComponent(world, passengerId, ChildOf(floorId));
-  addComponent(world, passengerId, GoingTo(destinationId));
+    const passengerId = addEntity(world);
 
-  setComponent(world, passengerId, Passenger, {
-    index: index,
-    state: "waiting",
-  });
+    addComponent(world, passengerId, ChildOf(floorId));
+    addComponent(world, passengerId, GoingTo(destinationId));
+    joinLine(world, floorId, passengerId);
+    countWaiting(world, floorId, direction, 1);
+
+    setComponent(world, passengerId, Passenger, {
+      index: getLine(world, floorId).length - 1,
+      state: "waiting",
+      spawnedAt: world.time.elapsed,
+    });
 
-  addComponent(world, passengerId, Graphic);
+    recordSpawn(world);
+    record(world, { type: "spawn", floor: origin, destination });
+    emit(world, {
+      type: "PassengerSpawned",
+      passenger: passengerId,
+      floor: origin,
+      destination,
+    });
 
-  setComponent(world, passengerId, Acting, {
-    duration: 1000,
-  });
+    addComponent(world, passengerId, Graphic);
 
-  const [elevatorId] = query(world, [Elevator]);
+    setComponent(world, passengerId, Acting, {
+      duration: 1000,
+    });
 
-  if (!elevatorId) {
-    throw new Error("Expected at least 1 elevator");
+    pressCallButton(world, floorId, direction);
   }
-
-  setComponent(world, elevatorId, Elevator, {
-    queue: [...Elevator.queue[elevatorId], Floor.index[floorId]],
-  });
 }
 
 /**
@@ -157,47 +327,63 @@ export function updatePassengerState(
       Floor: Floor;
     };
     time: Time;
+    controller: Control;
+    events: EventBus;
+    floors: FloorLookup;
+    lines: Lines;
+    metrics: Metrics;
   }>
 ) {
   const { Acting, Passenger, Elevator, Floor } = world.components;
 
-  for (const passengerId of query(world, [Passenger, Not(Acting)])) {
-    switch (Passenger.state[passengerId]) {
-      case "waiting": {
-        const [floorId] = getRelationTargets(world, passengerId, ChildOf);
-        const [elevatorId] = query(world, [Elevator, ChildOf(floorId)]);
-
-        if (!elevatorId) {
-          break;
-        }
+  // Passengers in cars that may act this tick.
+  const passengerIds: EntityId[] = [];
 
-        if (Elevator.state[elevatorId] !== "open") {
-          break;
-        }
+  // Gather open cars by floor once, rather than for every waiting passenger.
+  const open = new Map<EntityId, EntityId[]>();
 
-        setComponent(world, passengerId, Passenger, {
-          state: "boarding",
-        });
+  for (const elevatorId of queryElevators(world)) {
+    const [floorId] = getRelationTargets(world, elevatorId, ChildOf);
+    const isOpen = Elevator.state[elevatorId] === "open";
 
-        removeComponent(world, passengerId, ChildOf(floorId));
+    // Riders only get off an open car at their floor, so leave the rest be.
+    for (const passengerId of getLine(world, elevatorId)) {
+      if (
+        Passenger.state[passengerId] === "boarding" ||
+        (isOpen && hasComponent(world, passengerId, GoingTo(floorId)))
+      ) {
+        passengerIds.push(passengerId);
+      }
+    }
 
-        addComponent(world, passengerId, ChildOf(elevatorId));
+    if (isOpen) {
+      open.set(floorId, [...(open.get(floorId) ?? []), elevatorId]);
+    }
+  }
 
-        setComponent(world, passengerId, Acting, {
-          duration: 1000,
-        });
+  for (const passengerId of passengerIds) {
+    if (hasComponent(world, passengerId, Acting)) {
+      continue;
+    }
 
-        break;
-      }
+    switch (Passenger.state[passengerId]) {
       case "boarding": {
         const [destinationId] = getRelationTargets(world, passengerId, GoingTo);
         const [elevatorId] = getRelationTargets(world, passengerId, ChildOf);
 
+        const [floorId] = getRelationTargets(world, elevatorId, ChildOf);
+
         setComponent(world, passengerId, Passenger, { state: "riding" });
-        setComponent(world, elevatorId, Elevator, {
-          queue: [...Elevator.queue[elevatorId], Floor.index[destinationId]],
+
+        emit(world, {
+          type: "PassengerBoarded",
+          passenger: passengerId,
+          elevator: Elevator.index[elevatorId],
+          floor: Floor.index[floorId],
         });
 
+        pressFloorButton(world, elevatorId, Floor.index[destinationId]);
+
         break;
       }
       case "riding": {
@@ -213,9 +399,31 @@ export function updatePassengerState(
           break;
         }
 
-        setComponent(world, passengerId, Passenger, { state: "exiting" });
+        // Walk from our place in the car out of the building.
+        setComponent(world, passengerId, Passenger, {
+          state: "exiting",
+          exitedAt: world.time.elapsed,
+          origin:
+            getShaftPosition(Elevator.index[elevatorId]) +
+            getLinePosition(Passenger.index[passengerId]),
+        });
+
+        recordRide(
+          world,
+          Passenger.exitedAt[passengerId] - Passenger.boardedAt[passengerId]
+        );
+
+        emit(world, {
+          type: "PassengerDelivered",
+          passenger: passengerId,
+          elevator: Elevator.index[elevatorId],
+          floor: Floor.index[floorId],
+        });
 
         removeComponent(world, passengerId, ChildOf(elevatorId));
+        leaveLine(world, elevatorId, passengerId);
+
+        // Passengers on their way out don't hold a place in line.
         addComponent(world, passengerId, ChildOf(floorId));
 
         setComponent(world, passengerId, Acting, {
@@ -226,31 +434,126 @@ export function updatePassengerState(
       }
     }
   }
+
+  // Cars going that way, or free to go anywhere.
+  const getServingIds = (floorId: EntityId, direction: "up" | "down") =>
+    (open.get(floorId) ?? []).filter(
+      (elevatorId) =>
+        Elevator.direction[elevatorId] === direction ||
+        Elevator.direction[elevatorId] === "idle"
+    );
+
+  const hasRoom = (elevatorId: EntityId) =>
+    getLine(world, elevatorId).length < Elevator.capacity[elevatorId];
+
+  // Whether any of those left to go that way could board or call a car.
+  const mayAct = (
+    floorId: EntityId,
+    direction: "up" | "down",
+    left: number
+  ) => {
+    if (left === 0) {
+      return false;
+    }
+
+    const servingIds = getServingIds(floorId, direction);
+
+    return servingIds.length > 0
+      ? servingIds.some(hasRoom)
+      : !Floor[direction][floorId];
+  };
+
+  // Passengers waiting on a floor can only board a car with room or call one,
+  // and one of them calling is enough. Stop visiting a line as soon as no one
+  // left in it could do either, so crowded floors cost nothing while they wait.
+  for (const floorId of world.floors) {
+    const line = getLine(world, floorId);
+    const left = { ...Floor.waiting[floorId] };
+
+    for (
+      let i = 0;
+      i < line.length &&
+      (mayAct(floorId, "up", left.up) || mayAct(floorId, "down", left.down));
+    ) {
+      const passengerId = line[i];
+      const [destinationId] = getRelationTargets(world, passengerId, GoingTo);
+      const direction =
+        Floor.index[destinationId] > Floor.index[floorId] ? "up" : "down";
+
+      left[direction] -= 1;
+      i += 1;
+
+      if (hasComponent(world, passengerId, Acting)) {
+        continue;
+      }
+
+      const servingIds = getServingIds(floorId, direction);
+
+      // Board the first one with room.
+      const elevatorId = servingIds.find(hasRoom);
+
+      if (elevatorId === undefined) {
+        // Press the button again once the car we couldn't take leaves.
+        if (servingIds.length === 0) {
+          pressCallButton(world, floorId, direction);
+        }
+
+        continue;
+      }
+
+      // Walk from our place in line to the car door.
+      setComponent(world, passengerId, Passenger, {
+        state: "boarding",
+        boardedAt: world.time.elapsed,
+        origin:
+          getLinePosition(Passenger.index[passengerId]) -
+          getShaftPosition(Elevator.index[elevatorId]),
+      });
+
+      recordWait(
+        world,
+        Passenger.boardedAt[passengerId] - Passenger.spawnedAt[passengerId]
+      );
+
+      removeComponent(world, passengerId, ChildOf(floorId));
+      leaveLine(world, floorId, passengerId);
+
+      // The next passenger took our place in line.
+      i -= 1;
+      countWaiting(world, floorId, direction, -1);
+
+      addComponent(world, passengerId, ChildOf(elevatorId));
+      joinLine(world, elevatorId, passengerId);
+
+      setComponent(world, passengerId, Acting, {
+        duration: 1000,
+      });
+    }
+  }
 }
 
 /**
- * Update index for each passenger on a floor or in an elevator.
+ * Update index for each passenger in a line that changed.
  */
 export function updatePassengerIndex(
   world: World<{
     components: {
       Passenger: Passenger;
     };
+    lines: Lines;
   }>
 ) {
   const { Passenger } = world.components;
 
-  for (const passengerId of query(world, [Passenger])) {
-    const [parentId] = getRelationTargets(world, passengerId, ChildOf);
-
-    const index = query(world, [Passenger, ChildOf(parentId)]).indexOf(
-      passengerId
-    );
-
-    setComponent(world, passengerId, Passenger, {
-      index: index,
-    });
+  for (const parentId of world.lines.changed) {
+    for (const [index, passengerId] of getLine(world, parentId).entries()) {
+      if (Passenger.index[passengerId] !== index) {
+        setComponent(world, passengerId, Passenger, { index });
+      }
+    }
   }
+
+  world.lines.changed.clear();
 }
 
 /**
@@ -259,20 +562,41 @@ export function updatePassengerIndex(
 export function updatePassengerGraphics(
   world: World<{
     components: {
+      Acting: Acting;
       Passenger: Passenger;
       Graphic: Graphic;
     };
   }>
 ) {
-  const { Passenger, Graphic } = world.components;
+  const { Acting, Passenger, Graphic } = world.components;
 
   const size = 64;
 
   for (const passengerId of query(world, [Passenger, Graphic])) {
-    const index = Passenger.index[passengerId];
+    const [parentId] = getRelationTargets(world, passengerId, ChildOf);
+    const origin = Passenger.origin[passengerId];
+    const completion = hasComponent(world, passengerId, Acting)
+      ? Acting.completion[passengerId]
+      : 1;
+
+    let x = getLinePosition(Passenger.index[passengerId]);
+
+    switch (Passenger.state[passengerId]) {
+      case "boarding":
+        x = interpolate(origin, x, completion);
+        break;
+      case "exiting":
+        x = interpolate(origin, Graphic.size[parentId][0], completion);
+        break;
+    }
+
+    // Changing parents breaks interpolation with the last step.
+    if (Passenger.state[passengerId] !== "waiting" && completion === 0) {
+      Graphic.previous[passengerId] = undefined;
+    }
 
     setComponent(world, passengerId, Graphic, {
-      position: [index * 10, 0],
+      position: [x, 0],
       size: [size, size],
       image: "./passenger.gif",
     });
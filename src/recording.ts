@@ -0,0 +1,224 @@
+import { type EntityId, type World } from "bitecs";
+import {
+  isCommand,
+  type ControllerCommand,
+  type ControllerRuntime,
+} from "./controller";
+import { type Elevator } from "./elevator";
+import { type Level, type LevelState } from "./level";
+import { type Passenger } from "./passenger";
+import { validateScenario } from "./scenario";
+import { type Random, type SimulationStats, type Time } from "./shared";
+
+/**
+ * Something that happened during a tick.
+ */
+export type Change =
+  | { type: "spawn"; floor: number; destination: number }
+  | { type: "command"; command: ControllerCommand }
+  | {
+      type: "elevator";
+      elevator: number;
+      state: Elevator["state"][number];
+    }
+  | {
+      type: "passenger";
+      passenger: EntityId;
+      state: Passenger["state"][number];
+    };
+
+/**
+ * Log entry, the tick and what changed.
+ */
+export type Entry = [tick: number, change: Change];
+
+/**
+ * Changes recorded so far.
+ */
+export type Recorder = {
+  log: Entry[];
+  // How much of the log is known to match the recording played back, and the
+  // tick where it stopped matching, if it did.
+  matched: number;
+  diverged: number | undefined;
+};
+
+/**
+ * Everything needed to play a run again.
+ */
+export type Recording = {
+  version: 1;
+  level: Level;
+  seed: number;
+  step: number;
+  ticks: number;
+  log: Entry[];
+};
+
+/**
+ * Initialize module.
+ */
+export function initialize(world: World<{ recorder: Recorder }>) {
+  world.recorder = {
+    log: [],
+    matched: 0,
+    diverged: undefined,
+  };
+}
+
+/**
+ * Log a change on the current tick.
+ */
+export function record(
+  world: World<{ recorder: Recorder; simulation: SimulationStats }>,
+  change: Change
+) {
+  world.recorder.log.push([world.simulation.count, change]);
+}
+
+/**
+ * Wrap up the run so far.
+ */
+export function createRecording(
+  world: World<{
+    level: LevelState;
+    random: Random;
+    recorder: Recorder;
+    simulation: SimulationStats;
+    time: Time;
+  }>
+): Recording {
+  return {
+    version: 1,
+    level: world.level.current,
+    seed: world.random.seed,
+    step: world.time.step,
+    ticks: world.simulation.count,
+    log: world.recorder.log,
+  };
+}
+
+/**
+ * Parse and validate a recording file.
+ */
+export function parseRecording(text: string): Recording {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Expected recording to be valid JSON, ${(error as Error).message}`
+    );
+  }
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Expected recording to be an object, got ${text}`);
+  }
+
+  const { version, level, seed, step, ticks, log } = value as Record<
+    string,
+    unknown
+  >;
+
+  if (version !== 1) {
+    throw new Error(`Expected recording version to be 1, got ${version}`);
+  }
+
+  if (!Number.isInteger(seed) || !Number.isInteger(ticks)) {
+    throw new Error(`Expected recording seed and ticks to be integers`);
+  }
+
+  if (typeof step !== "number" || !(step > 0)) {
+    throw new Error(`Expected recording step to be a positive number`);
+  }
+
+  if (
+    !Array.isArray(log) ||
+    !log.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        Number.isInteger(entry[0]) &&
+        typeof entry[1]?.type === "string"
+    )
+  ) {
+    throw new Error(`Expected recording log to be a list of [tick, change]`);
+  }
+
+  const scenario = validateScenario(level);
+
+  // Commands are replayed as they are, so they must fit the building.
+  for (const [tick, change] of log as Entry[]) {
+    if (
+      change.type === "command" &&
+      !isCommand(change.command, scenario.elevators.length, scenario.floors)
+    ) {
+      throw new Error(
+        `Expected recording command on tick ${tick} to fit the level, got ${JSON.stringify(change.command)}`
+      );
+    }
+  }
+
+  return {
+    version,
+    level: scenario,
+    seed: seed as number,
+    step,
+    ticks: ticks as number,
+    log: log as Entry[],
+  };
+}
+
+/**
+ * Controller runtime that issues the recorded commands on the same ticks.
+ */
+export function createReplayRuntime(
+  world: World<{ simulation: SimulationStats }>,
+  recording: Recording
+): ControllerRuntime {
+  const commands = new Map<number, ControllerCommand[]>();
+
+  for (const [tick, change] of recording.log) {
+    if (change.type === "command") {
+      commands.set(tick, [...(commands.get(tick) ?? []), change.command]);
+    }
+  }
+
+  return () => commands.get(world.simulation.count) ?? [];
+}
+
+/**
+ * Find the first tick where a replay stopped matching its recording, if it did.
+ * Only entries logged since the last call are compared, so it's cheap to call
+ * on every frame.
+ */
+export function findDivergence(
+  world: World<{ recorder: Recorder; simulation: SimulationStats }>,
+  recording: Recording
+) {
+  const { recorder } = world;
+  const replayed = recorder.log;
+  const expected = recording.log;
+  const tick = world.simulation.count;
+
+  while (
+    recorder.diverged === undefined &&
+    (recorder.matched < replayed.length || recorder.matched < expected.length)
+  ) {
+    const i = recorder.matched;
+
+    // Anything further hasn't been replayed yet.
+    if (replayed[i] === undefined && expected[i][0] >= tick) {
+      break;
+    }
+
+    if (JSON.stringify(replayed[i]) !== JSON.stringify(expected[i])) {
+      recorder.diverged = (replayed[i] ?? expected[i])[0];
+      break;
+    }
+
+    recorder.matched += 1;
+  }
+
+  return recorder.diverged;
+}
@@ -0,0 +1,184 @@
+import {
+  isCommand,
+  type ControllerCommand,
+  type ControllerEvent,
+  type ControllerRuntime,
+  type BuildingInfo,
+} from "./controller";
+
+/**
+ * Messages sent to the sandbox worker.
+ */
+export type SandboxRequest =
+  | { type: "load"; code: string }
+  | { type: "tick"; info: BuildingInfo; events: ControllerEvent[] };
+
+/**
+ * Messages sent back by the sandbox worker.
+ */
+export type SandboxResponse =
+  | { type: "ready" }
+  | { type: "commands"; commands: ControllerCommand[] }
+  | { type: "error"; message: string };
+
+/**
+ * Sandbox options, in milliseconds.
+ */
+export type SandboxOptions = {
+  // Time the controller may spend handling a single tick.
+  budget: number;
+  // Time without a response after which the controller is considered stuck.
+  timeout: number;
+};
+
+/**
+ * Sandbox callbacks.
+ */
+export type SandboxHandlers = {
+  // The controller threw, overran its budget or stopped responding.
+  onError: (error: Error) => void;
+  // The controller answered, so the next tick may run.
+  onReady: () => void;
+};
+
+/**
+ * Player code running in a worker.
+ */
+export type Sandbox = {
+  runtime: ControllerRuntime;
+  // Whether the controller answered the last tick, so the next one may run.
+  ready: () => boolean;
+  terminate: () => void;
+};
+
+/**
+ * Run player code in a worker.
+ *
+ * The worker runs in lockstep with the simulation: each tick is sent to the
+ * worker and the runtime returns the commands answered for the tick before,
+ * so commands always land exactly one tick late, however long the worker
+ * takes. Callers must not run a tick until ready() says the last one was
+ * answered. A controller that throws, overruns its budget or stops
+ * responding is terminated and reported through onError, and ticks run
+ * without it from then on. Player code can post to the main thread itself, so
+ * answers are timed here and their commands checked against the building.
+ */
+export function createSandbox(
+  code: string,
+  { onError, onReady }: SandboxHandlers,
+  { budget = 50, timeout = 1000 }: Partial<SandboxOptions> = {}
+): Sandbox {
+  const worker = new Worker(new URL("./sandbox.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  let terminated = false;
+  // When the request still unanswered was sent, if any.
+  let pending: number | undefined = performance.now();
+  let commands: ControllerCommand[] = [];
+  // Building the last tick was sent with, to check commands against.
+  let sent: BuildingInfo = { elevators: [], floors: [] };
+
+  const terminate = (error?: Error) => {
+    if (terminated) {
+      return;
+    }
+
+    terminated = true;
+    worker.terminate();
+
+    // Ticks may run without the controller from now on.
+    if (error) {
+      onError(error);
+      onReady();
+    }
+  };
+
+  worker.addEventListener(
+    "message",
+    ({ data }: MessageEvent<SandboxResponse>) => {
+      const duration = performance.now() - (pending ?? performance.now());
+      pending = undefined;
+
+      switch (data.type) {
+        case "ready":
+          onReady();
+          break;
+        case "commands":
+          if (duration > budget) {
+            terminate(
+              new Error(
+                `Controller took ${Math.round(duration)}ms to handle a tick, the budget is ${budget}ms`
+              )
+            );
+            break;
+          }
+
+          if (
+            !Array.isArray(data.commands) ||
+            !data.commands.every((command) =>
+              isCommand(command, sent.elevators.length, sent.floors.length)
+            )
+          ) {
+            terminate(new Error("Controller sent malformed commands"));
+            break;
+          }
+
+          commands = data.commands;
+          onReady();
+          break;
+        case "error":
+          terminate(new Error(data.message));
+          break;
+      }
+    }
+  );
+
+  worker.addEventListener("error", (event) => {
+    event.preventDefault();
+    terminate(new Error(event.message));
+  });
+
+  worker.postMessage({ type: "load", code } satisfies SandboxRequest);
+
+  const ready = () => {
+    if (terminated || pending === undefined) {
+      return true;
+    }
+
+    if (performance.now() - pending > timeout) {
+      terminate(
+        new Error(
+          `Controller didn't respond for ${timeout}ms, it might be stuck in an infinite loop`
+        )
+      );
+      return true;
+    }
+
+    return false;
+  };
+
+  const runtime: ControllerRuntime = (info, events) => {
+    if (!ready()) {
+      throw new Error("Expected controller to answer the last tick first");
+    }
+
+    if (terminated) {
+      return [];
+    }
+
+    pending = performance.now();
+    sent = info;
+    worker.postMessage({
+      type: "tick",
+      info,
+      events,
+    } satisfies SandboxRequest);
+
+    const received = commands;
+    commands = [];
+    return received;
+  };
+
+  return { runtime, ready, terminate: () => terminate() };
+}
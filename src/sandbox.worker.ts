@@ -0,0 +1,42 @@
+import {
+  compileController,
+  createRuntime,
+  type ControllerRuntime,
+} from "./controller";
+import { type SandboxRequest, type SandboxResponse } from "./sandbox";
+
+let runtime: ControllerRuntime | undefined;
+
+/**
+ * Reply to the main thread.
+ */
+function reply(response: SandboxResponse) {
+  self.postMessage(response);
+}
+
+self.addEventListener("message", ({ data }: MessageEvent<SandboxRequest>) => {
+  try {
+    switch (data.type) {
+      case "load":
+        runtime = createRuntime(compileController(data.code));
+        reply({ type: "ready" });
+        break;
+      case "tick": {
+        if (!runtime) {
+          throw new Error("Expected controller to be loaded");
+        }
+
+        reply({
+          type: "commands",
+          commands: runtime(data.info, data.events),
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    reply({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
@@ -0,0 +1,224 @@
+import { type Car, type Level, type Objective, type Spawn } from "./level";
+import { generators, type Pattern, type Traffic } from "./traffic";
+
+/**
+ * Plain JSON object.
+ */
+type Fields = Record<string, unknown>;
+
+/**
+ * Describe a value for error messages.
+ */
+function describe(value: unknown) {
+  if (value === undefined) {
+    return "nothing";
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Throw unless the value is a plain object.
+ */
+function expectObject(path: string, value: unknown): Fields {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`Expected ${path} to be an object, got ${describe(value)}`);
+  }
+  return value as Fields;
+}
+
+/**
+ * Throw unless the value is an array.
+ */
+function expectArray(path: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected ${path} to be an array, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Throw unless the value is a non-empty string.
+ */
+function expectString(path: string, value: unknown): string {
+  if (typeof value !== "string" || value === "") {
+    throw new Error(`Expected ${path} to be a string, got ${describe(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Throw unless the value is a number within bounds.
+ */
+function expectNumber(
+  path: string,
+  value: unknown,
+  { min = 0, max = Infinity, integer = false } = {}
+): number {
+  if (
+    typeof value !== "number" ||
+    !Number.isFinite(value) ||
+    value < min ||
+    value > max ||
+    (integer && !Number.isInteger(value))
+  ) {
+    const kind = integer ? "an integer" : "a number";
+    const range = max === Infinity ? `${min} or more` : `${min} to ${max}`;
+
+    throw new Error(
+      `Expected ${path} to be ${kind} from ${range}, got ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate an optional number, leaving it out when missing.
+ */
+function optionalNumber(
+  path: string,
+  value: unknown,
+  bounds?: Parameters<typeof expectNumber>[2]
+) {
+  return value === undefined ? undefined : expectNumber(path, value, bounds);
+}
+
+/**
+ * Validate an elevator car.
+ */
+function parseCar(path: string, value: unknown, floors: number): Car {
+  const data = expectObject(path, value);
+
+  return {
+    capacity: expectNumber(`${path}.capacity`, data.capacity, {
+      min: 1,
+      integer: true,
+    }),
+    floor: optionalNumber(`${path}.floor`, data.floor, {
+      max: floors - 1,
+      integer: true,
+    }),
+    speed: optionalNumber(`${path}.speed`, data.speed, { min: 1 }),
+    doors: optionalNumber(`${path}.doors`, data.doors, { min: 1 }),
+  };
+}
+
+/**
+ * Validate a traffic stream.
+ */
+function parseTraffic(path: string, value: unknown): Traffic {
+  const data = expectObject(path, value);
+  const patterns = Object.keys(generators);
+
+  if (!patterns.includes(data.pattern as string)) {
+    throw new Error(
+      `Expected ${path}.pattern to be one of ${patterns.join(", ")}, got ${describe(data.pattern)}`
+    );
+  }
+
+  const start = optionalNumber(`${path}.start`, data.start);
+  const end = optionalNumber(`${path}.end`, data.end, { min: start ?? 0 });
+
+  return {
+    pattern: data.pattern as Pattern,
+    rate: expectNumber(`${path}.rate`, data.rate),
+    start,
+    end,
+  };
+}
+
+/**
+ * Validate spawn rules.
+ */
+function parseSpawn(path: string, value: unknown): Spawn {
+  const data = expectObject(path, value);
+
+  return {
+    traffic: expectArray(`${path}.traffic`, data.traffic).map((traffic, i) =>
+      parseTraffic(`${path}.traffic[${i}]`, traffic)
+    ),
+    limit: expectNumber(`${path}.limit`, data.limit, {
+      min: 1,
+      integer: true,
+    }),
+  };
+}
+
+/**
+ * Validate a level objective.
+ */
+function parseObjective(path: string, value: unknown): Objective {
+  const data = expectObject(path, value);
+
+  return {
+    delivered: optionalNumber(`${path}.delivered`, data.delivered, {
+      min: 1,
+      integer: true,
+    }),
+    duration: optionalNumber(`${path}.duration`, data.duration, { min: 1 }),
+    maxWait: optionalNumber(`${path}.maxWait`, data.maxWait),
+    maxMoves: optionalNumber(`${path}.maxMoves`, data.maxMoves, {
+      integer: true,
+    }),
+  };
+}
+
+/**
+ * Validate a scenario, i.e. a level definition from outside the game.
+ */
+export function validateScenario(value: unknown): Level {
+  const data = expectObject("scenario", value);
+  const floors = expectNumber("floors", data.floors, { min: 2, integer: true });
+
+  let labels: string[] | undefined;
+
+  if (data.labels !== undefined) {
+    labels = expectArray("labels", data.labels).map((label, i) =>
+      expectString(`labels[${i}]`, label)
+    );
+
+    if (labels.length !== floors) {
+      throw new Error(
+        `Expected labels to name all ${floors} floors, got ${labels.length}`
+      );
+    }
+  }
+
+  const elevators = expectArray("elevators", data.elevators).map((car, i) =>
+    parseCar(`elevators[${i}]`, car, floors)
+  );
+
+  if (elevators.length === 0) {
+    throw new Error("Expected elevators to have at least one car, got none");
+  }
+
+  return {
+    id: expectString("id", data.id),
+    name: expectString("name", data.name),
+    floors,
+    labels,
+    elevators,
+    spawn: parseSpawn("spawn", data.spawn),
+    objective: parseObjective("objective", data.objective ?? {}),
+    seed: optionalNumber("seed", data.seed, {
+      max: 2 ** 32 - 1,
+      integer: true,
+    }),
+  };
+}
+
+/**
+ * Parse and validate a scenario file.
+ */
+export function parseScenario(text: string): Level {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Expected scenario to be valid JSON, ${(error as Error).message}`
+    );
+  }
+
+  return validateScenario(value);
+}
@@ -0,0 +1,160 @@
+import { type World } from "bitecs";
+import { type SimulationStats } from "./shared";
+
+/**
+ * Stages of a tick, in the order they run.
+ */
+export const phases = ["input", "logic", "post-logic", "render-prep"] as const;
+
+/**
+ * Stage of a tick.
+ */
+export type Phase = (typeof phases)[number];
+
+/**
+ * System registration, for a system that needs a world like W.
+ */
+export type SystemDefinition<W extends World = World> = {
+  // Unique name, used for constraints and timing.
+  name: string;
+  phase: Phase;
+  run: (world: W) => void;
+  // Systems in the same phase this one must run before.
+  before?: string[];
+  // Systems in the same phase this one must run after.
+  after?: string[];
+};
+
+/**
+ * Registered systems and their order, worked out when first needed.
+ */
+export type Scheduler = {
+  systems: SystemDefinition[];
+  order: Map<Phase, SystemDefinition[]> | undefined;
+};
+
+/**
+ * Initialize module. Must come first so other modules can register systems.
+ */
+export function initialize(world: World<{ scheduler: Scheduler }>) {
+  world.scheduler = {
+    systems: [],
+    order: undefined,
+  };
+}
+
+/**
+ * Register a system to run every tick. Systems often need more of the world
+ * than the module registering them sets up, which is left to the world every
+ * module is compiled into.
+ */
+export function addSystem<W extends World>(
+  world: World<{ scheduler: Scheduler }>,
+  definition: SystemDefinition<W>
+) {
+  const { scheduler } = world;
+
+  if (scheduler.systems.some(({ name }) => name === definition.name)) {
+    throw new Error(`Expected system ${definition.name} to be registered once`);
+  }
+
+  scheduler.systems.push(definition as SystemDefinition);
+  scheduler.order = undefined;
+}
+
+/**
+ * Sort the systems of a phase so every constraint holds, keeping the order
+ * they were registered in otherwise.
+ */
+function sort(systems: SystemDefinition[], phase: Phase) {
+  const members = systems.filter((system) => system.phase === phase);
+  const edges = new Map(members.map(({ name }) => [name, new Set<string>()]));
+
+  for (const system of systems) {
+    for (const name of [...(system.before ?? []), ...(system.after ?? [])]) {
+      const other = systems.find((other) => other.name === name);
+
+      if (other === undefined) {
+        throw new Error(
+          `Expected system ${name}, referenced by ${system.name}, to be registered`
+        );
+      }
+
+      // Phases already run in order, constraints only apply within one.
+      if (other.phase !== system.phase) {
+        throw new Error(
+          `Expected system ${name}, referenced by ${system.name}, to be in phase ${system.phase}, got ${other.phase}`
+        );
+      }
+    }
+  }
+
+  // Map each system to the ones that must run before it.
+  for (const system of members) {
+    for (const name of system.after ?? []) {
+      edges.get(system.name)?.add(name);
+    }
+    for (const name of system.before ?? []) {
+      edges.get(name)?.add(system.name);
+    }
+  }
+
+  const sorted: SystemDefinition[] = [];
+  const pending = [...members];
+
+  while (pending.length > 0) {
+    const index = pending.findIndex(({ name }) =>
+      [...edges.get(name)!].every((dependency) =>
+        sorted.some((system) => system.name === dependency)
+      )
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `Expected systems in phase ${phase} to have no circular constraints, got ${pending.map(({ name }) => name).join(", ")}`
+      );
+    }
+
+    sorted.push(...pending.splice(index, 1));
+  }
+
+  return sorted;
+}
+
+/**
+ * Get the systems of a phase in the order they run.
+ */
+export function getSchedule(
+  world: World<{ scheduler: Scheduler }>,
+  phase: Phase
+) {
+  const { scheduler } = world;
+
+  scheduler.order ??= new Map(
+    phases.map((phase) => [phase, sort(scheduler.systems, phase)])
+  );
+
+  return scheduler.order.get(phase)!;
+}
+
+/**
+ * Run every system of a phase, timing each one.
+ */
+export function runPhase(
+  world: World<{ scheduler: Scheduler; simulation: SimulationStats }>,
+  phase: Phase
+) {
+  const { systems } = world.simulation;
+
+  for (const { name, run } of getSchedule(world, phase)) {
+    const start = performance.now();
+
+    run(world);
+
+    const delta = performance.now() - start;
+    const timing = (systems[name] ??= { delta: 0, total: 0 });
+
+    timing.delta = delta;
+    timing.total += delta;
+  }
+}
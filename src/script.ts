@@ -1,122 +1,488 @@
 import "./style.css";
 
-import { addComponent, addEntity, query, setComponent } from "bitecs";
-import { initialize as acting, updateActingCompletion } from "./acting";
-import { initialize as building, updateBuildingGraphics } from "./building";
+import { fit, follow, pan, updateCamera, zoomAt } from "./camera";
+import { createCanvasRenderer, getImage } from "./canvas";
+import { render, updatePreviousGraphics } from "./graphic";
+import { getLevel, levels, type Level } from "./level";
+import { createSandbox, type Sandbox } from "./sandbox";
 import {
-  initialize as elevator,
-  updateElevatorClosedState,
-  updateElevatorClosingState,
-  updateElevatorDirection,
-  updateElevatorGraphics,
-  updateElevatorMovingState,
-  updateElevatorOpeningState,
-  updateElevatorOpenState,
-} from "./elevator";
-import { initialize as floor, updateFloorGraphics } from "./floor";
-import { getImage, initialize as graphic, render } from "./graphic";
+  createRecording,
+  findDivergence,
+  parseRecording,
+  type Recording,
+} from "./recording";
+import { parseScenario } from "./scenario";
+import { createSnapshot, parseSnapshot, restoreSnapshot } from "./snapshot";
+import { setSeed } from "./shared";
 import {
-  managePassengerLifecycle,
-  initialize as passenger,
-  updatePassengerGraphics,
-  updatePassengerIndex,
-  updatePassengerState,
-} from "./passenger";
-import { ChildOf, initialize as common, compileWorld } from "./shared";
+  accumulate,
+  createSimulation,
+  replay,
+  seed,
+  step,
+  updateGraphics,
+  type Simulation,
+} from "./simulation";
+import { createSvgRenderer } from "./svg";
+
+/**
+ * Allow reproducing a run by passing its seed, e.g. ?seed=1234.
+ */
+const params = new URLSearchParams(location.search);
+
+// --
+// --
+// --
+
+const viewport = document.querySelector<HTMLElement>("#viewport")!;
+const canvas = document.querySelector<HTMLCanvasElement>("canvas")!;
+const renderer = createCanvasRenderer(canvas.getContext("2d")!);
+
+const form = document.querySelector<HTMLFormElement>("#controller")!;
+const code = form.elements.namedItem("code") as HTMLTextAreaElement;
+const error = form.elements.namedItem("error") as HTMLOutputElement;
+
+const controls = document.querySelector<HTMLFormElement>("#controls")!;
+const level = controls.elements.namedItem("level") as HTMLSelectElement;
+const scenario = controls.elements.namedItem("scenario") as HTMLInputElement;
+const pause = controls.elements.namedItem("pause") as HTMLButtonElement;
+const advance = controls.elements.namedItem("step") as HTMLButtonElement;
+const speed = controls.elements.namedItem("speed") as HTMLSelectElement;
+const save = controls.elements.namedItem("save") as HTMLButtonElement;
+const recorded = controls.elements.namedItem("replay") as HTMLInputElement;
+const scrubber = controls.elements.namedItem("scrubber") as HTMLInputElement;
+const store = controls.elements.namedItem("store") as HTMLButtonElement;
+const stored = controls.elements.namedItem("restore") as HTMLInputElement;
+const picture = controls.elements.namedItem("picture") as HTMLButtonElement;
+const camera = controls.elements.namedItem("camera") as HTMLSelectElement;
+const clock = controls.elements.namedItem("clock") as HTMLOutputElement;
+const outcome = controls.elements.namedItem("outcome") as HTMLOutputElement;
+const metrics = controls.elements.namedItem("metrics") as HTMLOutputElement;
+
+for (const { id, name } of levels) {
+  level.add(new Option(name, id, false, id === params.get("level")));
+}
 
 /**
  * The world state.
  */
-const world = compileWorld(
-  common,
-  graphic,
-  acting,
-  building,
-  floor,
-  elevator,
-  passenger
-);
+let world: Simulation;
+
+let sandbox: Sandbox | undefined;
 
 /**
- * Save the world type.
+ * Levels loaded from scenario files, by id.
  */
-type World = typeof world;
+const scenarios = new Map<string, Level>();
 
-function seed(world: World) {
-  const { Floor, Graphic, Elevator, Building } = world.components;
+/**
+ * Viewport size in CSS pixels, kept up to date as it resizes.
+ */
+let size: [number, number] = [viewport.clientWidth, viewport.clientHeight];
 
-  const buildingId = addEntity(world);
-  addComponent(world, buildingId, Building);
-  addComponent(world, buildingId, Graphic);
+/**
+ * Recording being played back, if any.
+ */
+let playback: Recording | undefined;
+
+/**
+ * Steps due but not run yet, waiting on the controller.
+ */
+let due = 0;
+
+/**
+ * Whether there's nothing left to simulate.
+ */
+function isOver() {
+  return (
+    world.level.outcome !== "pending" ||
+    (playback !== undefined && world.simulation.count >= playback.ticks)
+  );
+}
+
+/**
+ * List camera modes, with one to follow each elevator in the level.
+ */
+function listCameraModes() {
+  camera.replaceChildren(
+    new Option("Fit building", "fit"),
+    new Option("Free", "free"),
+    ...world.level.current.elevators.map(
+      (_, index) => new Option(`Follow elevator ${index}`, String(index))
+    )
+  );
+
+  camera.value =
+    world.camera.mode === "follow"
+      ? String(world.camera.target)
+      : world.camera.mode;
+}
+
+/**
+ * Whether the controller answered the last tick, so the next one may run.
+ * Recordings play back without one.
+ */
+function isReady() {
+  return playback !== undefined || sandbox === undefined || sandbox.ready();
+}
 
-  for (let index = 0; index < 7; index++) {
-    const floorId = addEntity(world);
-    addComponent(world, floorId, ChildOf(buildingId));
-    addComponent(world, floorId, Graphic);
-    setComponent(world, floorId, Floor, { index });
+/**
+ * Run the steps due for as long as the controller keeps answering, but no
+ * longer than a frame. Called every frame, and again each time the controller
+ * answers.
+ */
+function pump() {
+  const start = performance.now();
+
+  while (due > 0 && !isOver() && isReady() && performance.now() - start < 12) {
+    tick();
+    due -= 1;
+  }
+}
+
+/**
+ * Run the player's code on a new world.
+ */
+function run(next: Simulation) {
+  sandbox?.terminate();
+
+  error.value = "";
+
+  world = next;
+  world.time.paused = false;
+  world.time.accumulator = 0;
+  world.rendering.size = size;
+  due = 0;
+
+  if (speed.value !== "max") {
+    world.time.scale = Number(speed.value);
   }
 
-  const [floorId] = query(world, [Floor]);
+  sandbox = createSandbox(code.value, {
+    onError: (reason) => {
+      error.value = `Controller stopped: ${reason.message}`;
+    },
+    onReady: pump,
+  });
+
+  world.controller.runtime = sandbox.runtime;
+
+  playback = undefined;
+  scrubber.disabled = true;
+  scrubber.value = "0";
+
+  pause.textContent = "Pause";
+  advance.disabled = true;
+
+  listCameraModes();
+}
 
-  for (let index = 0; index < 1; index++) {
-    const elevatorId = addEntity(world);
-    addComponent(world, elevatorId, ChildOf(floorId));
+/**
+ * Start the selected level over, running the player's code.
+ */
+function start() {
+  const next = createSimulation();
 
-    setComponent(world, elevatorId, Elevator, {
-      index,
-      state: "closed",
-      queue: [],
-    });
+  seed(next, scenarios.get(level.value) ?? getLevel(level.value));
 
-    addComponent(world, elevatorId, Graphic);
+  // Override the scenario's own seed, if any.
+  if (params.has("seed")) {
+    setSeed(next, Number(params.get("seed")));
   }
+
+  run(next);
 }
 
 /**
- * Update the world state.
+ * Play a recording from the start.
  */
-function update(world: World) {
-  const now = performance.now();
-  world.time.delta = now - world.time.now;
-  world.time.elapsed += world.time.delta;
-  world.time.now = now;
+function watch(recording: Recording) {
+  sandbox?.terminate();
 
-  updateActingCompletion(world);
+  error.value = "";
 
-  managePassengerLifecycle(world);
-  updatePassengerIndex(world);
-  updatePassengerState(world);
+  playback = recording;
+  world = replay(recording);
+  world.rendering.size = size;
+  due = 0;
 
-  updateElevatorDirection(world);
-  updateElevatorClosingState(world);
-  updateElevatorClosedState(world);
-  updateElevatorMovingState(world);
-  updateElevatorOpeningState(world);
-  updateElevatorOpenState(world);
+  if (speed.value !== "max") {
+    world.time.scale = Number(speed.value);
+  }
+
+  scrubber.max = String(recording.ticks);
+  scrubber.value = "0";
+  scrubber.disabled = false;
 
-  updateBuildingGraphics(world);
-  updateFloorGraphics(world);
-  updateElevatorGraphics(world);
-  updatePassengerGraphics(world);
+  pause.textContent = "Pause";
+  advance.disabled = true;
 
-  world.simulation.count += 1;
-  world.simulation.delta = performance.now() - world.time.now;
+  listCameraModes();
 }
 
-// --
-// --
-// --
+/**
+ * Jump to a tick of the recording being played back, going over it again from
+ * the start when seeking backwards.
+ */
+function seek(target: number) {
+  if (!playback) {
+    return;
+  }
+
+  if (target < world.simulation.count) {
+    const { paused, scale } = world.time;
+    const view = world.camera;
+
+    world = replay(playback);
+    world.time.paused = paused;
+    world.time.scale = scale;
+    world.camera = view;
+    world.rendering.size = size;
+  }
+
+  while (world.simulation.count < target && !isOver()) {
+    step(world);
+  }
+
+  updateGraphics(world);
+  world.time.accumulator = 0;
+  world.rendering.alpha = 1;
+  render(world, renderer);
+}
+
+form.addEventListener("submit", (event) => {
+  event.preventDefault();
+  start();
+});
+
+/**
+ * Run a single step and prepare its graphics.
+ */
+function tick() {
+  updatePreviousGraphics(world);
+  step(world);
+  updateGraphics(world);
+}
+
+level.addEventListener("change", () => {
+  start();
+});
+
+scenario.addEventListener("change", async () => {
+  const [file] = scenario.files ?? [];
+
+  if (!file) {
+    return;
+  }
+
+  let loaded: Level;
+
+  try {
+    loaded = parseScenario(await file.text());
+  } catch (reason) {
+    error.value = `Scenario rejected: ${(reason as Error).message}`;
+    return;
+  }
+
+  if (!scenarios.has(loaded.id)) {
+    level.add(new Option(loaded.name, loaded.id));
+  }
+
+  scenarios.set(loaded.id, loaded);
+  level.value = loaded.id;
+  start();
+});
+
+recorded.addEventListener("change", async () => {
+  const [file] = recorded.files ?? [];
+
+  if (!file) {
+    return;
+  }
+
+  try {
+    watch(parseRecording(await file.text()));
+  } catch (reason) {
+    error.value = `Replay rejected: ${(reason as Error).message}`;
+  }
+});
+
+/**
+ * Let the player download some content as a file.
+ */
+function download(content: string, name: string, type = "application/json") {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+
+  link.href = URL.createObjectURL(blob);
+  link.download = name;
+  link.click();
+
+  URL.revokeObjectURL(link.href);
+}
+
+save.addEventListener("click", () => {
+  download(
+    JSON.stringify(createRecording(world)),
+    `${world.level.current.id}-${world.random.seed}.json`
+  );
+});
+
+store.addEventListener("click", () => {
+  download(
+    JSON.stringify(createSnapshot(world)),
+    `${world.level.current.id}-${world.simulation.count}.json`
+  );
+});
+
+picture.addEventListener("click", () => {
+  const renderer = createSvgRenderer((src) => new URL(src, location.href).href);
+
+  render(world, renderer);
 
-const ctx = document
-  .querySelector<HTMLCanvasElement>("canvas")
-  ?.getContext("2d")!;
+  download(
+    renderer.svg,
+    `${world.level.current.id}-${world.simulation.count}.svg`,
+    "image/svg+xml"
+  );
+});
 
-seed(world);
+stored.addEventListener("change", async () => {
+  const [file] = stored.files ?? [];
+
+  if (!file) {
+    return;
+  }
+
+  try {
+    run(restoreSnapshot(parseSnapshot(await file.text())));
+  } catch (reason) {
+    error.value = `Snapshot rejected: ${(reason as Error).message}`;
+  }
+});
+
+camera.addEventListener("change", () => {
+  if (camera.value === "fit") {
+    fit(world);
+  } else if (camera.value === "free") {
+    world.camera.mode = "free";
+  } else {
+    follow(world, Number(camera.value));
+  }
+
+  // Point the camera right away, even while paused.
+  updateCamera(world);
+});
+
+// Lay the building out again as the viewport resizes, right away rather than
+// on the next step, and without gliding from the old layout.
+new ResizeObserver(([entry]) => {
+  size = [entry.contentRect.width, entry.contentRect.height];
+
+  world.rendering.size = size;
+  updateGraphics(world);
+  updatePreviousGraphics(world);
+}).observe(viewport);
+
+canvas.addEventListener("wheel", (event) => {
+  event.preventDefault();
+
+  zoomAt(world, Math.exp(-event.deltaY / 500), [event.offsetX, event.offsetY]);
+  camera.value = "free";
+});
+
+canvas.addEventListener("pointerdown", (event) => {
+  canvas.setPointerCapture(event.pointerId);
+});
+
+canvas.addEventListener("pointermove", (event) => {
+  if (!canvas.hasPointerCapture(event.pointerId)) {
+    return;
+  }
+
+  pan(world, [event.movementX, event.movementY]);
+  camera.value = "free";
+});
+
+scrubber.addEventListener("input", () => {
+  seek(Number(scrubber.value));
+});
+
+pause.addEventListener("click", () => {
+  world.time.paused = !world.time.paused;
+  due = 0;
+  pause.textContent = world.time.paused ? "Resume" : "Pause";
+  advance.disabled = !world.time.paused;
+});
+
+advance.addEventListener("click", () => {
+  if (isOver() || !isReady()) {
+    return;
+  }
+
+  tick();
+  world.time.accumulator = 0;
+  world.rendering.alpha = 1;
+  render(world, renderer);
+});
+
+speed.addEventListener("change", () => {
+  if (speed.value !== "max") {
+    world.time.scale = Number(speed.value);
+  }
+});
+
+start();
 
 getImage("./floor-tile.gif").onload = () => {
-  requestAnimationFrame(function step() {
-    update(world);
-    render(world, ctx);
-    requestAnimationFrame(step);
+  let last = performance.now();
+
+  requestAnimationFrame(function frame(now) {
+    // Run as many steps as the controller answers and skip rendering
+    // altogether.
+    if (speed.value === "max" && !world.time.paused) {
+      due = Infinity;
+      pump();
+    } else {
+      // Steps the controller can't keep up with are dropped, like long
+      // frames, so the simulation slows down instead of falling behind.
+      due = Math.min(
+        due + accumulate(world, now - last),
+        Math.ceil((250 * world.time.scale) / world.time.step)
+      );
+
+      pump();
+
+      world.rendering.alpha = world.time.accumulator / world.time.step;
+      render(world, renderer);
+    }
+
+    last = now;
+
+    if (playback) {
+      if (!world.time.paused) {
+        scrubber.value = String(world.simulation.count);
+      }
+
+      const diverged = findDivergence(world, playback);
+
+      if (diverged !== undefined) {
+        error.value = `Replay diverged from the recording at tick ${diverged}`;
+      }
+    }
+
+    clock.value = `${(world.time.elapsed / 1000).toFixed(1)}s`;
+    outcome.value =
+      world.level.outcome === "pending"
+        ? ""
+        : `${world.level.outcome === "success" ? "Success" : "Failure"}: ${world.level.reason}`;
+    metrics.value = [
+      `Delivered ${world.metrics.delivered}`,
+      `Wait ${(world.metrics.averageWait / 1000).toFixed(1)}s avg, ${(world.metrics.maxWait / 1000).toFixed(1)}s max`,
+      `Ride ${(world.metrics.averageRide / 1000).toFixed(1)}s avg, ${(world.metrics.maxRide / 1000).toFixed(1)}s max`,
+      `Moves ${world.metrics.moves}`,
+    ].join(" · ");
+
+    requestAnimationFrame(frame);
   });
 };
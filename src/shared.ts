@@ -1,4 +1,5 @@
 import { createRelation, createWorld, type World } from "bitecs";
+import { addSystem, type Scheduler } from "./scheduler";
 
 /**
  * Utility type to extract data from a component definition.
@@ -14,6 +15,20 @@ export type Time = {
   now: number;
   delta: number;
   elapsed: number;
+  step: number;
+  accumulator: number;
+  // Only read by accumulate, to tell how many steps are due in real time.
+  // Systems never see them, a step always advances by the same amount.
+  scale: number;
+  paused: boolean;
+};
+
+/**
+ * Pseudo-random number generator state.
+ */
+export type Random = {
+  seed: number;
+  state: number;
 };
 
 /**
@@ -22,6 +37,8 @@ export type Time = {
 export type SimulationStats = {
   delta: number;
   count: number;
+  // Time taken by each system, on the last tick and altogether.
+  systems: Record<string, { delta: number; total: number }>;
 };
 
 /**
@@ -54,16 +71,56 @@ export const ChildOf = createRelation({
  * World time statistics.
  */
 export function initialize(
-  world: World<{ time: Time; simulation: SimulationStats }>
+  world: World<{
+    time: Time;
+    random: Random;
+    scheduler: Scheduler;
+    simulation: SimulationStats;
+  }>
 ) {
   world.time = {
-    now: performance.now(),
+    now: 0,
     delta: 0,
     elapsed: 0,
+    step: 1000 / 60,
+    accumulator: 0,
+    scale: 1,
+    paused: false,
+  };
+
+  const seed = Math.floor(Math.random() * 2 ** 32);
+
+  world.random = {
+    seed,
+    state: seed,
   };
 
   world.simulation = {
     delta: 0,
     count: 0,
+    systems: {},
   };
+
+  addSystem(world, {
+    name: "advanceTime",
+    phase: "input",
+    run: advanceTime,
+  });
+}
+
+/**
+ * Advance time by one fixed step.
+ */
+export function advanceTime(world: World<{ time: Time }>) {
+  world.time.delta = world.time.step;
+  world.time.elapsed += world.time.step;
+  world.time.now += world.time.step;
+}
+
+/**
+ * Reset the random number generator with a new seed.
+ */
+export function setSeed(world: World<{ random: Random }>, seed: number) {
+  world.random.seed = seed >>> 0;
+  world.random.state = seed >>> 0;
 }
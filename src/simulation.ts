@@ -0,0 +1,154 @@
+import { addComponent, addEntity, setComponent } from "bitecs";
+import { initialize as acting } from "./acting";
+import { initialize as building } from "./building";
+import { initialize as camera } from "./camera";
+import { initialize as controller } from "./controller";
+import { initialize as elevator } from "./elevator";
+import { initialize as events } from "./events";
+import { initialize as floor } from "./floor";
+import { initialize as graphic } from "./graphic";
+import { initialize as level, type Level } from "./level";
+import { initialize as metrics } from "./metrics";
+import { initialize as passenger } from "./passenger";
+import {
+  createReplayRuntime,
+  initialize as recording,
+  type Recording,
+} from "./recording";
+import { runPhase, initialize as scheduler } from "./scheduler";
+import { ChildOf, initialize as common, compileWorld, setSeed } from "./shared";
+
+/**
+ * Create a new world.
+ */
+export function createSimulation() {
+  return compileWorld(
+    scheduler,
+    common,
+    graphic,
+    camera,
+    acting,
+    building,
+    floor,
+    elevator,
+    passenger,
+    controller,
+    metrics,
+    level,
+    recording,
+    events
+  );
+}
+
+/**
+ * Save the world type.
+ */
+export type Simulation = ReturnType<typeof createSimulation>;
+
+/**
+ * Populate the world with the level's building, floors and elevators.
+ */
+export function seed(world: Simulation, level: Level) {
+  const { Floor, Graphic, Elevator, Building } = world.components;
+
+  world.level.current = level;
+
+  if (level.seed !== undefined) {
+    setSeed(world, level.seed);
+  }
+
+  const buildingId = addEntity(world);
+  addComponent(world, buildingId, Building);
+  addComponent(world, buildingId, Graphic);
+
+  const floorIds = [];
+
+  for (let index = 0; index < level.floors; index++) {
+    const floorId = addEntity(world);
+    addComponent(world, floorId, ChildOf(buildingId));
+    addComponent(world, floorId, Graphic);
+    setComponent(world, floorId, Floor, {
+      index,
+      label: level.labels?.[index] ?? String(index),
+    });
+    floorIds.push(floorId);
+  }
+
+  for (const [index, car] of level.elevators.entries()) {
+    const elevatorId = addEntity(world);
+    addComponent(world, elevatorId, ChildOf(floorIds[car.floor ?? 0]));
+
+    setComponent(world, elevatorId, Elevator, {
+      index,
+      state: "closed",
+      queue: [],
+      capacity: car.capacity,
+      speed: car.speed ?? 1000,
+      doors: car.doors ?? 1000,
+    });
+
+    addComponent(world, elevatorId, Graphic);
+  }
+}
+
+/**
+ * Populate the world from a recording, so it plays out the same way.
+ */
+export function replay(recording: Recording) {
+  const world = createSimulation();
+
+  world.time.step = recording.step;
+
+  seed(world, recording.level);
+  setSeed(world, recording.seed);
+
+  world.controller.runtime = createReplayRuntime(world, recording);
+
+  return world;
+}
+
+/**
+ * Advance the world state by one fixed step, until the level is over. Runs
+ * even while paused, so a paused world can be stepped by hand.
+ */
+export function step(world: Simulation) {
+  if (world.level.outcome !== "pending") {
+    return;
+  }
+
+  const start = performance.now();
+
+  runPhase(world, "input");
+  runPhase(world, "logic");
+  runPhase(world, "post-logic");
+
+  world.simulation.count += 1;
+  world.simulation.delta = performance.now() - start;
+}
+
+/**
+ * Accumulate real elapsed time and return how many steps are due.
+ * Time is scaled, or ignored while paused, here rather than in systems, so
+ * they always advance by the same fixed step and only the number of steps
+ * per frame changes. Long frames, e.g. from a background tab, are capped so
+ * the simulation slows down instead of trying to catch up all at once.
+ */
+export function accumulate(world: Simulation, elapsed: number) {
+  if (world.time.paused) {
+    return 0;
+  }
+
+  world.time.accumulator += Math.min(elapsed, 250) * world.time.scale;
+
+  const steps = Math.floor(world.time.accumulator / world.time.step);
+  world.time.accumulator -= steps * world.time.step;
+
+  return steps;
+}
+
+/**
+ * Update graphics to reflect the world state.
+ */
+export function updateGraphics(world: Simulation) {
+  runPhase(world, "render-prep");
+}
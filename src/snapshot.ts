@@ -0,0 +1,321 @@
+import {
+  $internal,
+  addComponent,
+  addEntity,
+  entityExists,
+  getAllEntities,
+  getRelationTargets,
+  hasComponent,
+  removeEntity,
+  type EntityId,
+  type InternalWorld,
+} from "bitecs";
+import { type ControllerEvent } from "./controller";
+import { Boarding, Exiting, Riding } from "./elevator";
+import { indexFloors } from "./floor";
+import { type LevelState } from "./level";
+import { type Metrics } from "./metrics";
+import { GoingTo } from "./passenger";
+import { type Entry } from "./recording";
+import { validateScenario } from "./scenario";
+import {
+  ChildOf,
+  type Random,
+  type SimulationStats,
+  type Time,
+} from "./shared";
+import { createSimulation, type Simulation } from "./simulation";
+
+/**
+ * Relations an entity may have, by name.
+ */
+const relations = { ChildOf, GoingTo, Boarding, Exiting, Riding };
+
+/**
+ * Entity state, its component data and relation targets by name.
+ */
+export type EntitySnapshot = {
+  id: EntityId;
+  components: Record<string, Record<string, unknown>>;
+  relations: Record<string, EntityId[]>;
+  // ChildOf role, if any.
+  role?: string;
+};
+
+/**
+ * Complete simulation state, except for the controller's own.
+ */
+export type Snapshot = {
+  version: 1;
+  time: Time;
+  random: Random;
+  simulation: SimulationStats;
+  metrics: Metrics;
+  level: LevelState;
+  events: ControllerEvent[];
+  log: Entry[];
+  entities: EntitySnapshot[];
+  // Ids of removed entities, in the order they're handed out again.
+  free: EntityId[];
+  // Lines as they are, since passenger indexes only catch up next tick.
+  lines: {
+    byParent: [EntityId, EntityId[]][];
+    changed: EntityId[];
+  };
+};
+
+/**
+ * Capture the world state.
+ */
+export function createSnapshot(world: Simulation): Snapshot {
+  const entities: EntitySnapshot[] = [];
+
+  for (const entityId of getAllEntities(world)) {
+    const entity: EntitySnapshot = {
+      id: entityId,
+      components: {},
+      relations: {},
+    };
+
+    for (const [name, component] of Object.entries(world.components)) {
+      if (!hasComponent(world, entityId, component)) {
+        continue;
+      }
+
+      entity.components[name] = {};
+
+      for (const [key, values] of Object.entries(component)) {
+        entity.components[name][key] = (values as unknown[])[entityId];
+      }
+    }
+
+    for (const [name, relation] of Object.entries(relations)) {
+      const targets = getRelationTargets(world, entityId, relation);
+
+      if (targets.length > 0) {
+        entity.relations[name] = [...targets];
+      }
+    }
+
+    if (entity.relations.ChildOf) {
+      entity.role = ChildOf(entity.relations.ChildOf[0]).role[entityId];
+    }
+
+    entities.push(entity);
+  }
+
+  // bitECS keeps removed ids past the living ones, to hand out again.
+  const { dense, aliveCount } = (world as unknown as InternalWorld)[$internal]
+    .entityIndex;
+
+  // Copy through JSON so the snapshot shares nothing with the world.
+  return JSON.parse(
+    JSON.stringify({
+      version: 1,
+      time: world.time,
+      random: world.random,
+      simulation: world.simulation,
+      metrics: world.metrics,
+      level: world.level,
+      events: world.controller.events,
+      log: world.recorder.log,
+      entities,
+      free: dense.slice(aliveCount),
+      lines: {
+        byParent: [...world.lines.byParent],
+        changed: [...world.lines.changed],
+      },
+    })
+  );
+}
+
+/**
+ * Build a new world from a snapshot. Entities keep their ids, and the
+ * controller starts over with the default one, so set it again to resume a
+ * run.
+ */
+export function restoreSnapshot(snapshot: Snapshot): Simulation {
+  const world = createSimulation();
+  const { components } = world as unknown as {
+    components: Record<string, Record<string, unknown[]>>;
+  };
+
+  // Copy through JSON so the world shares nothing with the snapshot.
+  const {
+    time,
+    random,
+    simulation,
+    metrics,
+    level,
+    events,
+    log,
+    entities,
+    free,
+    lines,
+  }: Snapshot = JSON.parse(JSON.stringify(snapshot));
+
+  Object.assign(world.time, time);
+  Object.assign(world.random, random);
+  Object.assign(world.simulation, simulation);
+  Object.assign(world.metrics, metrics);
+  Object.assign(world.level, level);
+  world.controller.events = events;
+  world.recorder.log = log;
+
+  // Hand out every id up to the last one used, then remove the free ones,
+  // last to be handed out again first, so ids come out as they would have.
+  // Recordings and the controller refer to passengers by id.
+  for (let i = 0; i < entities.length + free.length; i++) {
+    addEntity(world);
+  }
+
+  for (const id of [...free].reverse()) {
+    removeEntity(world, id);
+  }
+
+  const listed = new Set<EntityId>();
+
+  for (const entity of entities) {
+    if (listed.has(entity.id) || !entityExists(world, entity.id)) {
+      throw new Error(
+        `Expected entity ${entity.id} to be listed once and not freed`
+      );
+    }
+
+    listed.add(entity.id);
+  }
+
+  const getTarget = (id: EntityId) => {
+    if (!listed.has(id)) {
+      throw new Error(`Expected entity ${id} to be in the snapshot`);
+    }
+
+    return id;
+  };
+
+  for (const entity of entities) {
+    const entityId = entity.id;
+
+    for (const [name, data] of Object.entries(entity.components)) {
+      const component = components[name];
+
+      if (!component) {
+        throw new Error(`Expected component ${name} to exist`);
+      }
+
+      // Write the data directly, observers would reset or record it.
+      addComponent(world, entityId, component);
+
+      for (const [key, value] of Object.entries(data)) {
+        component[key][entityId] = value;
+      }
+    }
+  }
+
+  for (const entity of entities) {
+    const entityId = entity.id;
+
+    for (const [name, targets] of Object.entries(entity.relations)) {
+      const relation = relations[name as keyof typeof relations];
+
+      if (!relation) {
+        throw new Error(`Expected relation ${name} to exist`);
+      }
+
+      for (const targetId of targets) {
+        addComponent(world, entityId, relation(getTarget(targetId)));
+      }
+    }
+
+    // Relation data is shared by every world, so overwrite whatever role
+    // another world left for this id, even with none.
+    if (entity.relations.ChildOf) {
+      ChildOf(getTarget(entity.relations.ChildOf[0])).role[entityId] =
+        entity.role ?? "";
+    }
+  }
+
+  world.lines = {
+    byParent: new Map(
+      lines.byParent.map(([parentId, line]) => [
+        getTarget(parentId),
+        line.map(getTarget),
+      ])
+    ),
+    changed: new Set(lines.changed.map(getTarget)),
+  };
+
+  // Lookups are kept up to date by observers, which were bypassed.
+  indexFloors(world);
+
+  return world;
+}
+
+/**
+ * Parse and validate a snapshot file.
+ */
+export function parseSnapshot(text: string): Snapshot {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Expected snapshot to be valid JSON, ${(error as Error).message}`
+    );
+  }
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Expected snapshot to be an object, got ${text}`);
+  }
+
+  const snapshot = value as Snapshot;
+
+  if (snapshot.version !== 1) {
+    throw new Error(
+      `Expected snapshot version to be 1, got ${snapshot.version}`
+    );
+  }
+
+  for (const key of [
+    "time",
+    "random",
+    "simulation",
+    "metrics",
+    "level",
+  ] as const) {
+    if (typeof snapshot[key] !== "object" || snapshot[key] === null) {
+      throw new Error(`Expected snapshot ${key} to be an object`);
+    }
+  }
+
+  if (
+    !Array.isArray(snapshot.events) ||
+    !Array.isArray(snapshot.log) ||
+    !Array.isArray(snapshot.entities) ||
+    !Array.isArray(snapshot.free)
+  ) {
+    throw new Error(
+      `Expected snapshot events, log, entities and free ids to be lists`
+    );
+  }
+
+  if (
+    typeof snapshot.lines !== "object" ||
+    snapshot.lines === null ||
+    !Array.isArray(snapshot.lines.byParent) ||
+    !Array.isArray(snapshot.lines.changed) ||
+    !snapshot.lines.byParent.every(
+      (entry) =>
+        Array.isArray(entry) && entry.length === 2 && Array.isArray(entry[1])
+    )
+  ) {
+    throw new Error(
+      `Expected snapshot lines to list each line and the changed ones`
+    );
+  }
+
+  validateScenario(snapshot.level.current);
+
+  return snapshot;
+}
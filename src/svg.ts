@@ -0,0 +1,109 @@
+import { type Renderer } from "./graphic";
+
+/**
+ * Renderer that writes each frame as an SVG document.
+ */
+export type SvgRenderer = Renderer & {
+  // Markup of the last finished frame.
+  svg: string;
+};
+
+/**
+ * Escape text for use in markup.
+ */
+function escape(text: string) {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+/**
+ * Color attribute for a fill.
+ */
+function paint([r, g, b, a]: [number, number, number, number]) {
+  return `fill="rgb(${r} ${g} ${b})" fill-opacity="${a}"`;
+}
+
+/**
+ * Create a renderer that draws to SVG markup. Images are linked rather than
+ * embedded, so pass resolve to make their sources work wherever the markup
+ * ends up. Tiles are assumed square, as tall as what they fill.
+ */
+export function createSvgRenderer(resolve = (src: string) => src): SvgRenderer {
+  let size: [number, number] = [0, 0];
+  let body: string[] = [];
+  let patterns = new Map<string, { id: string; src: string; tile: number }>();
+
+  const renderer: SvgRenderer = {
+    svg: "",
+
+    begin(frame) {
+      size = frame;
+      body = [];
+      patterns = new Map();
+    },
+
+    enter([x, y], rotation, [sx, sy]) {
+      const angle = (rotation * 180) / Math.PI;
+
+      body.push(
+        `<g transform="translate(${x} ${y}) rotate(${angle}) scale(${sx} ${sy})">`
+      );
+    },
+
+    fill([width, height], color) {
+      body.push(`<rect width="${width}" height="${height}" ${paint(color)}/>`);
+    },
+
+    text(text, font, color) {
+      body.push(
+        `<text style="font: ${escape(font)}" ${paint(color)}>${escape(text)}</text>`
+      );
+    },
+
+    image(src, [width, height], pattern) {
+      if (!pattern) {
+        body.push(
+          `<image href="${escape(resolve(src))}" width="${width}" height="${height}" preserveAspectRatio="none"/>`
+        );
+        return;
+      }
+
+      // Tiles as tall as what they fill repeat the same either way.
+      const key = `${height}:${src}`;
+
+      if (!patterns.has(key)) {
+        patterns.set(key, {
+          id: `pattern-${patterns.size}`,
+          src,
+          tile: height,
+        });
+      }
+
+      body.push(
+        `<rect width="${width}" height="${height}" fill="url(#${patterns.get(key)!.id})"/>`
+      );
+    },
+
+    leave() {
+      body.push("</g>");
+    },
+
+    end() {
+      const defs = [...patterns.values()].map(({ id, src, tile }) => {
+        return `<pattern id="${id}" patternUnits="userSpaceOnUse" width="${tile}" height="${tile}"><image href="${escape(resolve(src))}" width="${tile}" height="${tile}"/></pattern>`;
+      });
+
+      renderer.svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${size[0]}" height="${size[1]}" viewBox="0 0 ${size[0]} ${size[1]}">`,
+        `<defs>${defs.join("")}</defs>`,
+        ...body,
+        "</svg>",
+      ].join("\n");
+    },
+  };
+
+  return renderer;
+}
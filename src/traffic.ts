@@ -0,0 +1,69 @@
+import { fraction, random } from "./math";
+import { type Random } from "./shared";
+
+/**
+ * How passengers pick where they come from and where they go.
+ */
+export type Pattern = "uniform" | "up-peak" | "down-peak" | "lunch";
+
+/**
+ * Stream of passengers arriving at random, times in milliseconds.
+ */
+export type Traffic = {
+  pattern: Pattern;
+  // Average passengers arriving per minute.
+  rate: number;
+  // When the stream begins, from the start of the level.
+  start?: number;
+  // When the stream ends, it never does if omitted.
+  end?: number;
+};
+
+/**
+ * Pick origin and destination floor indexes for a new passenger.
+ */
+export type Generator = (generator: Random, floors: number) => [number, number];
+
+/**
+ * Available traffic generators, by pattern.
+ */
+export const generators: Record<Pattern, Generator> = {
+  // Anyone going anywhere.
+  uniform: (generator, floors) => {
+    const origin = random(generator, floors);
+    const destination = random(generator, floors - 1);
+
+    return [origin, destination < origin ? destination : destination + 1];
+  },
+  // Morning arrivals, everybody leaves the lobby.
+  "up-peak": (generator, floors) => [0, random(generator, floors, 1)],
+  // Evening departures, everybody heads to the lobby.
+  "down-peak": (generator, floors) => [random(generator, floors, 1), 0],
+  // Going out and coming back from lunch, with a bit of inter-floor traffic.
+  lunch: (generator, floors) => {
+    const chance = fraction(generator);
+
+    if (chance < 0.4) {
+      return generators["up-peak"](generator, floors);
+    }
+    if (chance < 0.8) {
+      return generators["down-peak"](generator, floors);
+    }
+    return generators.uniform(generator, floors);
+  },
+};
+
+/**
+ * Tell whether a traffic stream is flowing at the given time.
+ */
+export function isFlowing(traffic: Traffic, elapsed: number) {
+  return elapsed >= (traffic.start ?? 0) && elapsed < (traffic.end ?? Infinity);
+}
+
+/**
+ * Roll whether a passenger arrives this step. Arrivals are a Poisson process,
+ * so the chance only depends on the rate and how long the step is.
+ */
+export function isArriving(generator: Random, traffic: Traffic, delta: number) {
+  return fraction(generator) < 1 - Math.exp((-traffic.rate * delta) / 60000);
+}